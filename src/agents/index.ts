@@ -1,6 +1,16 @@
 import type { AgentConfig } from "@opencode-ai/sdk";
 
-import { getModelShortName } from "../utils/session-helpers";
+import type { OrchestrationMode, ScoringConfig } from "../config";
+import {
+  formatScale,
+  formatScoresTableExample,
+  formatScoringCriteria,
+  getDimensionLabel,
+} from "../utils/scoring-helpers";
+import {
+  getModelShortName,
+  sanitizeForFilename,
+} from "../utils/session-helpers";
 
 const DESIGNER_SUBAGENT_PREFIX = "designer_model_";
 
@@ -12,6 +22,7 @@ type DesignerModelSpec = {
 
 type DesignerPrimaryAgentOptions = {
   baseOutputDir: string;
+  orchestrationMode: OrchestrationMode;
   designModels: DesignerModelSpec[];
   reviewModels: DesignerModelSpec[];
 };
@@ -23,6 +34,13 @@ export function getDesignerSubagentName(model: string): string {
   return `${DESIGNER_SUBAGENT_PREFIX}${normalizeAgentSuffix(model)}`;
 }
 
+/**
+ * Check whether an agent name belongs to a designer subagent.
+ */
+export function isDesignerSubagentName(agent: string | undefined): boolean {
+  return agent?.startsWith(DESIGNER_SUBAGENT_PREFIX) ?? false;
+}
+
 /**
  * Build the file stem used for design and review markdown files.
  */
@@ -30,6 +48,18 @@ export function getDesignerModelFileStem(model: string): string {
   return normalizeModelSlug(model);
 }
 
+/**
+ * Check whether a design ID (a model file stem) was written by a model.
+ * Matches both the tool path stem (sanitized short name) and the agent path
+ * file stem, which differ for model names containing dots.
+ */
+export function isDesignByModel(designId: string, model: string): boolean {
+  return (
+    designId === getDesignerModelFileStem(model) ||
+    designId === sanitizeForFilename(getModelShortName(model))
+  );
+}
+
 /**
  * Create the primary designer agent configuration.
  */
@@ -63,12 +93,15 @@ export function createDesignerPrimaryAgent(
 /**
  * Create a designer subagent configuration for a specific model.
  */
-export function createDesignerModelAgent(model: string): AgentConfig {
+export function createDesignerModelAgent(
+  model: string,
+  scoring: ScoringConfig,
+): AgentConfig {
   return {
     description: "Design Lab subagent that writes designs or reviews to files.",
     mode: "subagent",
     model,
-    prompt: buildDesignerSubagentPrompt(model),
+    prompt: buildDesignerSubagentPrompt(model, scoring),
     tools: {
       read: true,
       write: true,
@@ -101,9 +134,9 @@ function buildDesignerPrimaryPrompt(
     )
     .join("\n");
 
-  return `You are the Design Lab primary agent. Your job is to orchestrate model subagents to produce design and review markdown files.
+  const mode = options.orchestrationMode;
 
-## Available subagents
+  const subagentSection = `## Available subagents
 
 Design subagents:
 ${designList}
@@ -111,50 +144,120 @@ ${designList}
 Review subagents:
 ${reviewList}
 
-## Workflow
+`;
+
+  const toolWorkflow = `## ${mode === "both" ? "Tool workflow (default)" : "Workflow"}
+
+1. Call the generate_designs tool with the user's full requirements (problem
+   statement, constraints, non-functional requirements) and, optionally, a short topic.
+   Pass resume: true only when the user asks to continue an unfinished run.
+   It creates the run directory under ${options.baseOutputDir}/ and generates one
+   schema-validated design per model in isolated sessions (designs/*.json and *.md).
+2. Call the review_designs tool with the run directory it reported. Reviews are
+   blind; it writes reviews/*.md and scores/*.json.
+3. Call the aggregate_scores tool with the run directory. It writes
+   results/ranking.json, results/agreement.json and results/results.md.
+4. Read results/results.md and summarize the ranking, the winner (or the lack of
+   a clear one) and notable reviewer disagreements.
+
+Refinement rounds, only when the user asks to refine or iterate on the designs:
+call refine_designs, then review_designs and aggregate_scores with the round it
+reports; results.md then shows score changes since the previous round.
+
+`;
+
+  const agentWorkflow = `## ${mode === "both" ? "Subagent workflow (when the user asks for subagent delegation or Markdown-only output)" : "Workflow"}
 
 1. Create a new run directory under "${options.baseOutputDir}" using the format:
-   ${options.baseOutputDir}/YYYY-MM-DD-topic/
-   Use a short, lowercase, hyphenated topic derived from the request.
-   Use bash for date generation (e.g., "date +%F") and directory creation.
+   ${options.baseOutputDir}/<run-id>/
+   The run ID is the UTC date and time plus a short random hash, e.g.
+   2025-01-02-143005-9f3a1c. Use bash to generate it and create the directory:
+   echo "$(date -u +%F-%H%M%S)-$(head -c 3 /dev/urandom | od -An -tx1 | tr -d ' \\n')"
+   Write task.json in the run directory with a short, lowercase, hyphenated topic
+   derived from the request and the creation time:
+   {"topic": "<topic>", "created": "<output of date -u +%FT%TZ>"}
 2. Create subdirectories:
    - designs/
    - reviews/
 3. For each design subagent, delegate a design task in parallel:
     - Use delegate_task for ALL design subagents simultaneously (do not wait for each to complete)
     - Provide the requirements and the exact output_file path:
-      ${options.baseOutputDir}/YYYY-MM-DD-topic/designs/{fileStem}.md
+      ${options.baseOutputDir}/<run-id>/designs/{fileStem}.md
     - The output_file path is mandatory. If you omit it, the subagent must fail.
     - Instruct the subagent to write ONLY to the file and NOT to output the design in chat.
     - Wait for ALL design subagents to complete before proceeding.
-4. After all designs are written, delegate review tasks in parallel:
+4. After all designs are written, prepare a blind review:
+    - Call the prepare_blind_review tool with the run directory.
+    - It writes anonymized copies to blind/design-A.md, blind/design-B.md, ... and
+      stores the mapping to models in anonymization.json.
+5. Delegate review tasks in parallel:
     - Use delegate_task for ALL review subagents simultaneously (do not wait for each to complete)
-    - Provide the list of design file paths.
+    - Provide ONLY the blind/design-*.md paths returned by prepare_blind_review.
+      Never give reviewers designs/ paths, model names, or anonymization.json.
     - Provide the exact output_file path:
-      ${options.baseOutputDir}/YYYY-MM-DD-topic/reviews/review-{fileStem}.md
+      ${options.baseOutputDir}/<run-id>/reviews/review-{fileStem}.md
     - Each reviewer must produce ONE markdown report comparing ALL designs at once.
     - Wait for ALL review subagents to complete before proceeding.
-5. After all reviews are written, read every review file and produce a short summary:
+6. After all reviews are written, call the import_review_scores tool with the run
+   directory. It parses the Scores Table of each review into scores/*.json and
+   reports rows that could not be parsed; ask that reviewer to fix its table and
+   call the tool again.
+7. Read every review file and produce a short summary:
+   - Map design IDs back to models using anonymization.json
    - Which design is recommended overall
-   - Approximate scores per design (from the score table)
+   - Scores per design (from scores/*.json)
    - Notable disagreements between reviewers
-6. After all reviews are complete, perform synthesis:
+8. After all reviews are complete, perform synthesis:
    - Read all review markdown files from reviews/ directory
    - Read all score JSON files from scores/ directory
+   - Use anonymization.json to attribute design-A, design-B, ... to models
    - Analyze consensus and dissent between reviewers
    - Identify patterns of agreement and disagreement
    - Write final-report.md to the run directory root
    - Include sections: Executive Summary, Consensus Analysis, Design-by-Design Assessment, Final Recommendation, Key Insights
 
-## Output rules
+## Refinement rounds
+
+Only when the user asks to refine or iterate on the designs:
+
+1. Call the refine_designs tool with the run directory. Each designer model revises
+   its own design using the anonymized reviewer feedback; revisions are saved to
+   designs/round-N/.
+2. Call prepare_blind_review with the run directory and round N, then delegate
+   reviews exactly as in steps 5-7, using the returned blind/round-N/ paths and
+   output files under reviews/round-N/, and import their scores with round N.
+3. Summarize how each design changed compared with the previous round.
+
+`;
+
+  return `You are the Design Lab primary agent. Your job is to ${
+    mode === "tools"
+      ? "run the design lab tools that generate, review and rank designs."
+      : mode === "both"
+        ? "run the design lab tools, or orchestrate model subagents that produce design and review markdown files."
+        : "orchestrate model subagents to produce design and review markdown files."
+  }
+
+${mode === "tools" ? "" : subagentSection}${mode === "agent" ? "" : toolWorkflow}${mode === "tools" ? "" : agentWorkflow}## Output rules
 
 - Never paste design or review content into the main chat.
-- Return only a concise summary with the run directory, file paths, and the review summary.
+- Return only a concise summary with the run directory, file paths, and the review summary.${
+    mode === "tools"
+      ? ""
+      : `
 - If asked "what agents will you call", list the design subagents by name.
-- Use only the subagents listed above; do not invent agent names.`;
+- Use only the subagents listed above; do not invent agent names.`
+  }`;
 }
 
-function buildDesignerSubagentPrompt(model: string): string {
+function buildDesignerSubagentPrompt(
+  model: string,
+  scoring: ScoringConfig,
+): string {
+  const weightList = scoring.dimensions
+    .map((d) => `  - ${getDimensionLabel(d)}: ${d.weight}% — ${d.description}`)
+    .join("\n");
+
   return `You are a Design Lab subagent for model: ${model}.
 
 You only take tasks from the primary designer agent. You must write outputs to files and keep chat responses minimal.
@@ -178,7 +281,8 @@ When asked to design:
 ## Review tasks
 
 When asked to review:
-- Read all provided design files.
+- Read ONLY the provided design files. Reviews are blind: do not try to find out which model wrote a design.
+- Refer to each design by its design ID (the file name, e.g. design-A).
 - Produce ONE Markdown report that compares all designs at once.
 - Use the fixed scoring standard below for ALL reviews.
 - Include sections in this exact order:
@@ -194,20 +298,14 @@ When asked to review:
 
 ## Fixed Scoring Standard
 
-- Scale: 0-10 for each criterion (10 is best).
+- Scale: ${formatScale(scoring)} for each criterion (${scoring.scale.max} is best).
 - Criteria and weights (total 100%):
-  - Clarity: 20%
-  - Feasibility: 25%
-  - Scalability: 20%
-  - Maintainability: 20%
-  - Completeness: 15%
-- Weighted Total (0-10) = sum(score * weight) / 100.
+${weightList}
+- Weighted Total (${formatScale(scoring)}) = sum(score * weight) / 100.
 
 ## Scores Table Format (must be last in the report)
 
-| Design | Clarity (20%) | Feasibility (25%) | Scalability (20%) | Maintainability (20%) | Completeness (15%) | Weighted Total (0-10) |
-|--------|---------------|-------------------|-------------------|-----------------------|--------------------|-----------------------|
-| model-a | 8 | 9 | 7 | 8 | 8 | 8.1 |`;
+${formatScoresTableExample(scoring, "design-A")}`;
 }
 
 function normalizeModelSlug(model: string): string {
@@ -250,6 +348,8 @@ Your response must be a JSON object with this exact structure:
 {
   "title": "Short, descriptive title for the design",
   "summary": "2-3 paragraph executive summary of the design",
+  "goals": ["What the design sets out to achieve"],
+  "non_goals": ["What is explicitly out of scope"],
   "assumptions": ["List of assumptions you're making"],
   "architecture_overview": "High-level description of the architecture approach",
   "components": [
@@ -303,9 +403,17 @@ export function createDesignAgent(
 }
 
 /**
- * System prompt for review agents
+ * Build the system prompt for review agents from the scoring rubric
  */
-const REVIEW_AGENT_SYSTEM_PROMPT = `You are a senior technical reviewer evaluating software design proposals.
+function buildReviewAgentSystemPrompt(scoring: ScoringConfig): string {
+  const headers = [
+    "Design",
+    ...scoring.dimensions.map((d) => getDimensionLabel(d)),
+    "Overall",
+  ];
+  const exampleScores = headers.slice(1).map(() => scoring.scale.max - 2);
+
+  return `You are a senior technical reviewer evaluating software design proposals.
 
 ## Your Task
 
@@ -315,14 +423,9 @@ You will receive multiple design proposals for the same requirements. You must:
 3. Provide scores for each design
 4. Generate a markdown review with your analysis
 
-## Scoring Criteria (0-10 scale)
+## Scoring Criteria (${formatScale(scoring)} scale)
 
-- **Clarity**: How well-explained and understandable is the design?
-- **Feasibility**: Can this design be realistically implemented?
-- **Scalability**: Will this design handle growth well?
-- **Maintainability**: Will this design be easy to maintain and evolve?
-- **Completeness**: Does this design address all requirements?
-- **Overall**: Your overall assessment
+${formatScoringCriteria(scoring)}
 
 ## Review Format
 
@@ -335,9 +438,9 @@ First, provide a detailed markdown review comparing all designs:
 
 Then, provide a score table in markdown like:
 
-| Design | Clarity | Feasibility | Scalability | Maintainability | Completeness | Overall |
-|--------|---------|-------------|-------------|-----------------|--------------|---------|
-| model-name | 8 | 9 | 7 | 8 | 8 | 8 |
+| ${headers.join(" | ")} |
+|${headers.map((h) => "-".repeat(h.length + 2)).join("|")}|
+| design-A | ${exampleScores.join(" | ")} |
 
 ## Important
 
@@ -345,6 +448,7 @@ Then, provide a score table in markdown like:
 - Support your scores with reasoning
 - Consider the requirements when scoring
 - Do not be biased by model names`;
+}
 
 /**
  * Create a review agent configuration for a specific model
@@ -352,12 +456,57 @@ Then, provide a score table in markdown like:
 export function createReviewAgent(
   model: string,
   temperature: number,
+  scoring: ScoringConfig,
+): AgentConfig {
+  return {
+    model,
+    temperature,
+    mode: "subagent" as const,
+    prompt: buildReviewAgentSystemPrompt(scoring),
+    tools: {
+      write: false,
+      edit: false,
+      bash: false,
+      task: false,
+      delegate_task: false,
+    },
+  } as AgentConfig;
+}
+
+/**
+ * System prompt for pairwise review agents
+ */
+const PAIRWISE_REVIEW_AGENT_SYSTEM_PROMPT = `You are a senior technical reviewer comparing software design proposals head to head.
+
+## Your Task
+
+You will receive the requirements and then comparisons one at a time. Each
+comparison shows a first and a second design proposal. For each comparison you
+must:
+1. Compare the two designs against the requirements
+2. Pick the better design, or "tie" only if they are genuinely equivalent
+3. Explain your choice in 1-3 sentences
+
+## Important
+
+- Judge every comparison independently
+- The order in which designs are shown is arbitrary; do not favor the first or second design
+- Be objective and fair
+- Do not be biased by design IDs
+- Output ONLY valid JSON when asked for your judgments`;
+
+/**
+ * Create a pairwise review agent configuration for a specific model
+ */
+export function createPairwiseReviewAgent(
+  model: string,
+  temperature: number,
 ): AgentConfig {
   return {
     model,
     temperature,
     mode: "subagent" as const,
-    prompt: REVIEW_AGENT_SYSTEM_PROMPT,
+    prompt: PAIRWISE_REVIEW_AGENT_SYSTEM_PROMPT,
     tools: {
       write: false,
       edit: false,
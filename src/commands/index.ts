@@ -1,3 +1,5 @@
+import type { OrchestrationMode } from "../config";
+
 type ModelSpec = {
   model: string;
   agentName: string;
@@ -6,6 +8,7 @@ type ModelSpec = {
 
 type CommandOptions = {
   baseOutputDir: string;
+  orchestrationMode: OrchestrationMode;
   designModels: ModelSpec[];
   reviewModels: ModelSpec[];
 };
@@ -74,6 +77,28 @@ Here is a template
  * delegates to all model subagents, and produces design files.
  */
 export function buildDesignCommand(options: CommandOptions): CommandConfig {
+  if (usesTools(options)) {
+    return {
+      description:
+        "Generate design proposals from all configured models for a given topic",
+      agent: "designer",
+      template: `Generate designs for the following topic:
+
+$input
+
+## Instructions
+
+1. Call the generate_designs tool. Pass the topic above as the requirements,
+   expanded into a problem statement, constraints and non-functional requirements
+   if it is brief, and a short topic name. Pass resume: true only if the input
+   asks to continue an unfinished run.
+2. Report the run directory (and whether it was resumed), the generated files
+   and any models that failed.
+
+Do NOT run reviews. Only generate designs.`,
+    };
+  }
+
   const designList = options.designModels
     .map((spec) => `- ${spec.agentName} → designs/${spec.fileStem}.md`)
     .join("\n");
@@ -88,8 +113,8 @@ $input
 
 ## Instructions
 
-1. Create a run directory: ${options.baseOutputDir}/YYYY-MM-DD-<topic-slug>/
-   Use today's date and a short hyphenated slug derived from the topic.
+1. Create a run directory: ${options.baseOutputDir}/<run-id>/
+   ${describeRunId()}
 2. Create subdirectory: designs/
 3. Delegate design generation to each subagent in parallel:
 ${designList}
@@ -109,6 +134,36 @@ Do NOT run reviews. Only generate designs.`,
  * finds the most recent run under the base output directory.
  */
 export function buildReviewCommand(options: CommandOptions): CommandConfig {
+  if (usesTools(options)) {
+    return {
+      description:
+        "Run cross-reviews on existing designs using all configured review models",
+      agent: "designer",
+      template: `Run cross-reviews on existing designs.
+
+$input
+
+## Instructions
+
+1. If a run directory or a selector (\`latest\`, \`previous\` or part of a topic) is
+   specified above, pass it as lab_path to every tool below. Otherwise the tools
+   use the most recent run under ${options.baseOutputDir}/.
+${describeLabManifest()}
+   If the latest review phase there is not complete, pass its round to the tools
+   below.
+2. Call the review_designs tool. Reviews are blind; it writes reviews/*.md and
+   scores/*.json. An unfinished review is resumed: only the failed or missing
+   reviewers run again. If it reports failed reviewers, call it again once to
+   retry them.
+3. Call the aggregate_scores tool. It writes results/ranking.json,
+   results/agreement.json and results/results.md.
+4. Read results/results.md and produce a summary:
+   - Which design is recommended overall (or whether there is no clear winner)
+   - Scores per design
+   - Notable disagreements between reviewers`,
+    };
+  }
+
   const reviewList = options.reviewModels
     .map((spec) => `- ${spec.agentName} → reviews/review-${spec.fileStem}.md`)
     .join("\n");
@@ -123,22 +178,113 @@ export function buildReviewCommand(options: CommandOptions): CommandConfig {
  
  ## Instructions
  
- 1. If a run directory is specified above, use it. Otherwise, find the most
-    recent run directory under ${options.baseOutputDir}/ (sort by date prefix).
- 2. Read all design files from the designs/ subdirectory.
+ 1. If a run directory is specified above, use it. Otherwise, find the run under
+    ${options.baseOutputDir}/ that the input selects: \`latest\` (the default), \`previous\`
+    or part of a topic. ${describeRunOrder()}
+${describeLabManifest()}
+   Review only the designs whose generate (or refine) status is complete.
+ 2. Call the prepare_blind_review tool with the run directory. It writes
+    anonymized copies of the designs to blind/design-A.md, blind/design-B.md, ...
+    and stores the mapping to models in anonymization.json.
  3. Create subdirectory: reviews/ (if it doesn't exist).
  4. Delegate review tasks to each review subagent in parallel:
  ${reviewList}
  5. Fire all delegate_task calls simultaneously - do NOT wait for each to complete before starting the next.
- 6. Each reviewer must read ALL designs and produce ONE comparative markdown
-    report written to its output_file path.
- 7. Wait for ALL review subagents to complete, then read the reviews and produce a summary:
+ 6. Give each reviewer ONLY the blind/design-*.md paths. Never pass designs/ paths,
+    model names, or anonymization.json to reviewers.
+ 7. Each reviewer must read ALL blind designs and produce ONE comparative markdown
+    report written to its output_file path, referring to designs by design ID.
+ 8. Wait for ALL review subagents to complete, then call the import_review_scores
+    tool with the run directory. It parses each review's Scores Table into
+    scores/*.json and reports rows that could not be parsed; ask that reviewer to
+    fix its table and call the tool again.
+ 9. Read the reviews and scores and produce a summary, mapping design IDs back to
+    models using anonymization.json:
     - Which design is recommended overall
-    - Approximate scores per design
+    - Scores per design
     - Notable disagreements between reviewers`,
   };
 }
 
+/**
+ * Build the `/refine` command configuration.
+ *
+ * Usage: /refine [run-directory]
+ * Runs an iterative refinement round: each designer revises its design using
+ * the reviews of the previous round, then the revisions are blind-reviewed.
+ */
+export function buildRefineCommand(options: CommandOptions): CommandConfig {
+  if (usesTools(options)) {
+    return {
+      description:
+        "Revise designs using reviewer feedback, then review the revisions",
+      agent: "designer",
+      template: `Run a refinement round on existing designs.
+
+$input
+
+## Instructions
+
+1. If a run directory or a selector (\`latest\`, \`previous\` or part of a topic) is
+   specified above, pass it as lab_path to every tool below. Otherwise the tools
+   use the most recent run under ${options.baseOutputDir}/.
+${describeLabManifest()}
+   The latest round must already be reviewed: its review phase must be complete.
+2. Call the refine_designs tool. Each designer model revises its own design using
+   the anonymized reviewer feedback. Note the round number N it reports. An
+   unfinished refinement is resumed: only the failed or missing designs are
+   revised again.
+3. Call the review_designs tool with round N.
+4. Call the aggregate_scores tool with round N.
+5. Read results/round-N/results.md and summarize:
+   - How each design's scores and rank changed since the previous round
+   - Which design is now recommended overall`,
+    };
+  }
+
+  const reviewList = options.reviewModels
+    .map(
+      (spec) =>
+        `- ${spec.agentName} → reviews/round-N/review-${spec.fileStem}.md`,
+    )
+    .join("\n");
+
+  return {
+    description:
+      "Revise designs using reviewer feedback, then review the revisions",
+    agent: "designer",
+    template: `Run a refinement round on existing designs.
+
+$input
+
+## Instructions
+
+1. If a run directory is specified above, use it. Otherwise, find the run under
+   ${options.baseOutputDir}/ that the input selects: \`latest\` (the default), \`previous\`
+   or part of a topic. ${describeRunOrder()}
+${describeLabManifest()}
+   The latest round must already be reviewed.
+2. Call the refine_designs tool with the run directory. Each designer model
+   revises its own design using the anonymized reviewer feedback, and the
+   revisions are saved to designs/round-N/. Note the round number N it reports.
+3. Call the prepare_blind_review tool with the run directory and round N. It writes
+   anonymized copies of the revisions to blind/round-N/design-*.md, keeping each
+   design's ID from the previous round.
+4. Delegate review tasks to each review subagent in parallel:
+${reviewList}
+5. Fire all delegate_task calls simultaneously - do NOT wait for each to complete before starting the next.
+6. Give each reviewer ONLY the blind/round-N/design-*.md paths. Never pass designs/ paths,
+   model names, or anonymization.json to reviewers.
+7. Wait for ALL review subagents to complete, then call the import_review_scores
+   tool with the run directory and round N to write scores/round-N/*.json.
+8. Read the reviews and scores of this round and the previous round and summarize,
+   mapping design IDs back to models using anonymization.json:
+   - How each design's scores changed since the previous round
+   - Which weaknesses were addressed and which remain
+   - Which design is now recommended overall`,
+  };
+}
+
 /**
  * Build the `/synthesize` command configuration.
  *
@@ -156,16 +302,31 @@ $input
 
 ## Instructions
 
-1. If a run directory is specified above, use it. Otherwise, find the most
-   recent run directory under ${options.baseOutputDir}/ (sort by date prefix).
+1. If a run directory is specified above, use it. Otherwise, find the run under
+   ${options.baseOutputDir}/ that the input selects: \`latest\` (the default), \`previous\`
+   or part of a topic. ${describeRunOrder()}
+${describeLabManifest()}
+   Synthesize the latest round with a complete review phase; for later rounds
+   the files below are in round-N/ subdirectories. Mention any models whose
+   status is failed or cancelled.
 2. Read all review files from the reviews/ subdirectory.
-3. Read all score files from the scores/ subdirectory.
-4. Perform qualitative synthesis:
+3. Read all score files from the scores/ subdirectory. If it is missing or
+   empty, call the import_review_scores tool first to parse the reviews'
+   Scores Tables into score files.${
+     usesTools(options)
+       ? `
+   If results/results.md does not exist yet, call the aggregate_scores tool first,
+   then read results/results.md for rankings and reviewer agreement.`
+       : ""
+   }
+4. Reviews are blind: read anonymization.json and map design IDs
+   (design-A, design-B, ...) back to the models that wrote them.
+5. Perform qualitative synthesis:
    - Analyze patterns across all reviews
    - Identify consensus and disagreements
    - Synthesize scores with qualitative insights
    - Determine overall recommendations
-5. Write the final synthesis report to final-report.md with the following sections:
+6. Write the final synthesis report to final-report.md with the following sections:
    - Executive Summary
    - Design Comparison Matrix
    - Qualitative Analysis
@@ -175,6 +336,49 @@ $input
   };
 }
 
+/**
+ * Instructions for naming a new run directory (agent mode)
+ */
+function describeRunId(): string {
+  return `The run ID is the UTC date and time plus a short random hash, e.g.
+   2025-01-02-143005-9f3a1c. Generate it with bash:
+   echo "$(date -u +%F-%H%M%S)-$(head -c 3 /dev/urandom | od -An -tx1 | tr -d ' \\n')"
+   Then write task.json in the run directory with the topic (a short hyphenated
+   slug derived from it) and the creation time:
+   {"topic": "<topic-slug>", "created": "<output of date -u +%FT%TZ>"}`;
+}
+
+/**
+ * Instructions for ordering runs and matching selectors (agent mode)
+ */
+function describeRunOrder(): string {
+  return `Runs are ordered by the
+   \`created\` time in their lab.json (or task.json), newest first, and a topic
+   matches the \`topic\` recorded there. A topic may also be given in part,
+   but if that matches several runs, list their run IDs and ask which to use.`;
+}
+
+/**
+ * Instructions for reading a run's lab.json manifest, as a numbered-list
+ * continuation (indented three spaces)
+ */
+function describeLabManifest(): string {
+  return `   Read lab.json in the run directory, if it exists. It lists each phase
+   (generate, review, refine) with its round and status (running, complete,
+   incomplete or cancelled) and, per model, its status, attempts, last error
+   and output file. Use it to find the rounds and outputs instead of guessing
+   from the directory listing; runs without lab.json (e.g. from delegated
+   subagents) fall back to the listing.`;
+}
+
+/**
+ * Whether commands should call the design lab tools instead of delegating to
+ * designer subagents ("both" prefers the tools)
+ */
+function usesTools(options: CommandOptions): boolean {
+  return options.orchestrationMode !== "agent";
+}
+
 /**
  * Build the `/repowiki` command configuration.
  *
@@ -3,6 +3,25 @@ export {
   DesignArtifactSchema,
   ScoreSchema,
   RankingSchema,
+  PairwiseComparisonSchema,
+  ScoringConfigSchema,
+  ScoringDimensionSchema,
+  ScoreNormalizationSchema,
+  AggregationMethodSchema,
+  OrchestrationModeSchema,
+  createScoreSchema,
+  DEFAULT_SCORING_CONFIG,
+} from "./schema";
+export type {
+  DesignLabConfig,
+  DesignArtifact,
+  Score,
+  Ranking,
+  PairwiseComparison,
+  ScoringConfig,
+  ScoringDimension,
+  ScoreNormalization,
+  AggregationMethod,
+  OrchestrationMode,
 } from "./schema";
-export type { DesignLabConfig, DesignArtifact, Score, Ranking } from "./schema";
 export { loadPluginConfig } from "./loader";
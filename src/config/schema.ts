@@ -1,8 +1,170 @@
 import { z } from "zod";
 
+/**
+ * A single scoring dimension reviewers rate each design on
+ */
+export const ScoringDimensionSchema = z.object({
+  /**
+   * Key used in score JSON files (e.g. "feasibility")
+   * "overall" is reserved and always scored in addition to these dimensions
+   */
+  name: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, "Dimension name must be lowercase snake_case")
+    .refine((name) => name !== "overall", {
+      message: '"overall" is reserved and always scored',
+    }),
+
+  /**
+   * Human-readable label used in prompts and tables
+   * If not specified, derived from the name
+   */
+  label: z.string().optional(),
+
+  /**
+   * Question the reviewer answers when scoring this dimension
+   */
+  description: z.string(),
+
+  /**
+   * Weight in percent used for the weighted total (all weights sum to 100)
+   */
+  weight: z.number().positive(),
+});
+
+export type ScoringDimension = z.infer<typeof ScoringDimensionSchema>;
+
+/**
+ * Default rubric, matching the original fixed scoring standard
+ */
+export const DEFAULT_SCORING_DIMENSIONS: ScoringDimension[] = [
+  {
+    name: "clarity",
+    description: "How well-explained and understandable is the design?",
+    weight: 20,
+  },
+  {
+    name: "feasibility",
+    description: "Can this design be realistically implemented?",
+    weight: 25,
+  },
+  {
+    name: "scalability",
+    description: "Will this design handle growth well?",
+    weight: 20,
+  },
+  {
+    name: "maintainability",
+    description: "Will this design be easy to maintain and evolve?",
+    weight: 20,
+  },
+  {
+    name: "completeness",
+    description: "Does this design address all requirements?",
+    weight: 15,
+  },
+];
+
+/**
+ * Scoring rubric used by reviewers, score validation and aggregation
+ */
+export const ScoringConfigSchema = z
+  .object({
+    /**
+     * Numeric range every dimension is scored on
+     * @default { min: 0, max: 10 }
+     */
+    scale: z
+      .object({
+        min: z.number().default(0),
+        max: z.number().default(10),
+      })
+      .default({ min: 0, max: 10 }),
+
+    /**
+     * Dimensions reviewers score, in display order
+     */
+    dimensions: z
+      .array(ScoringDimensionSchema)
+      .min(1, "At least 1 scoring dimension required")
+      .default(DEFAULT_SCORING_DIMENSIONS),
+  })
+  .superRefine((scoring, refinementCtx) => {
+    if (scoring.scale.max <= scoring.scale.min) {
+      refinementCtx.addIssue({
+        code: "custom",
+        path: ["scale"],
+        message: "scale.max must be greater than scale.min",
+      });
+    }
+
+    const names = scoring.dimensions.map((d) => d.name);
+    const duplicates = names.filter((n, i) => names.indexOf(n) !== i);
+    if (duplicates.length > 0) {
+      refinementCtx.addIssue({
+        code: "custom",
+        path: ["dimensions"],
+        message: `Duplicate dimension names: ${[...new Set(duplicates)].join(", ")}`,
+      });
+    }
+
+    const totalWeight = scoring.dimensions.reduce((a, d) => a + d.weight, 0);
+    if (Math.abs(totalWeight - 100) > 0.01) {
+      refinementCtx.addIssue({
+        code: "custom",
+        path: ["dimensions"],
+        message: `Dimension weights must sum to 100 (got ${totalWeight})`,
+      });
+    }
+  });
+
+export type ScoringConfig = z.infer<typeof ScoringConfigSchema>;
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  scale: { min: 0, max: 10 },
+  dimensions: DEFAULT_SCORING_DIMENSIONS,
+};
+
+/**
+ * Per-reviewer score normalization strategies
+ */
+export const ScoreNormalizationSchema = z.enum([
+  "none",
+  "zscore",
+  "minmax",
+  "rank",
+]);
+
+export type ScoreNormalization = z.infer<typeof ScoreNormalizationSchema>;
+
+/**
+ * Methods for combining reviewers' scores into a ranking
+ */
+export const AggregationMethodSchema = z.enum([
+  "mean",
+  "median",
+  "borda",
+  "schulze",
+]);
+
+export type AggregationMethod = z.infer<typeof AggregationMethodSchema>;
+
+/**
+ * How the designer agent and slash commands run a design lab
+ */
+export const OrchestrationModeSchema = z.enum(["agent", "tools", "both"]);
+
+export type OrchestrationMode = z.infer<typeof OrchestrationModeSchema>;
+
+/**
+ * Session time limit in seconds
+ */
+const SessionTimeoutSchema = z.number().int().positive();
+
 /**
  * Configuration schema for OpenCode Design Lab plugin
  */
+
 export const DesignLabConfigSchema = z.object({
   $schema: z.string().optional(),
   /**
@@ -25,6 +187,17 @@ export const DesignLabConfigSchema = z.object({
    */
   base_output_dir: z.string().default(".design-lab"),
 
+  /**
+   * How designs are generated and reviewed
+   * - "agent": the designer agent delegates to designer_model_* subagents,
+   *   which write Markdown designs and reviews
+   * - "tools": the designer agent calls the generate_designs, review_designs
+   *   and aggregate_scores tools (schema-validated JSON designs and scores)
+   * - "both": register both; slash commands use the tools
+   * @default "agent"
+   */
+  orchestration_mode: OrchestrationModeSchema.default("agent"),
+
   /**
    * Temperature for design generation agents
    * Higher values (0.7-1.0) encourage creativity
@@ -44,6 +217,223 @@ export const DesignLabConfigSchema = z.object({
    * If not specified, uses the first design model
    */
   topic_generator_model: z.string().optional(),
+
+  /**
+   * Scoring rubric (dimensions, descriptions, scale and weights)
+   * If not specified, uses clarity/feasibility/scalability/maintainability/completeness
+   */
+  scoring: ScoringConfigSchema.default(DEFAULT_SCORING_CONFIG),
+
+  /**
+   * Exclude scores a reviewer gave to its own design from aggregation
+   * Self-scores are still shown in the reviewer bias report
+   * @default false
+   */
+  exclude_self_scores: z.boolean().default(false),
+
+  /**
+   * Per-reviewer calibration applied before averaging scores
+   * - "none": average raw scores
+   * - "zscore": standardize each reviewer, then map onto the pooled mean/spread
+   * - "minmax": stretch each reviewer's lowest..highest score to the full scale
+   * - "rank": replace scores with each reviewer's rank order, spread over the scale
+   * @default "none"
+   */
+  score_normalization: ScoreNormalizationSchema.default("none"),
+
+  /**
+   * How reviewers' overall scores are combined into the final ranking
+   * - "mean": average score
+   * - "median": median score, robust to a single outlier reviewer
+   * - "borda": each reviewer's ranking awards points for every design ranked below
+   * - "schulze": Condorcet method over reviewers' pairwise preferences
+   * Ranks from every method are recorded for comparison
+   * @default "mean"
+   */
+  aggregation_method: AggregationMethodSchema.default("mean"),
+
+  /**
+   * How reviewers evaluate designs
+   * - "score": rate every design on each scoring dimension
+   * - "pairwise": pick a winner for each pair of designs, shown in both orders
+   * @default "score"
+   */
+  review_mode: z.enum(["score", "pairwise"]).default("score"),
+
+  /**
+   * Rating options for pairwise review mode
+   */
+  pairwise: z
+    .object({
+      /**
+       * Rating used to rank designs (both are computed and reported)
+       * @default "bradley_terry"
+       */
+      rating_method: z.enum(["bradley_terry", "elo"]).default("bradley_terry"),
+
+      /**
+       * Elo K-factor: how far a single comparison moves a rating
+       * @default 32
+       */
+      elo_k_factor: z.number().positive().default(32),
+    })
+    .default({ rating_method: "bradley_terry", elo_k_factor: 32 }),
+
+  /**
+   * Bootstrap resampling of reviewers used for score/rank confidence
+   * intervals and tie detection (score review mode)
+   */
+  bootstrap: z
+    .object({
+      /**
+       * Number of resamples
+       * @default 1000
+       */
+      iterations: z.number().int().min(100).max(100000).default(1000),
+
+      /**
+       * Confidence level of the reported intervals
+       * @default 0.95
+       */
+      confidence: z.number().gt(0).lt(1).default(0.95),
+
+      /**
+       * Seed for the resampling, so results are reproducible
+       * @default 42
+       */
+      seed: z.number().int().default(42),
+    })
+    .default({ iterations: 1000, confidence: 0.95, seed: 42 }),
+
+  /**
+   * Retries for tool-mode model sessions
+   */
+  retries: z
+    .object({
+      /**
+       * Corrective re-prompts, in the same session, when a model's JSON does
+       * not parse or fails schema validation; the validation issues are sent
+       * back to the model
+       * @default 2
+       */
+      repair_attempts: z.number().int().min(0).max(5).default(2),
+
+      /**
+       * Attempts to send a prompt when the request to the server fails
+       * @default 3
+       */
+      send_attempts: z.number().int().min(1).max(10).default(3),
+
+      /**
+       * Delay before the first resend in milliseconds; doubles on every
+       * further attempt
+       * @default 1000
+       */
+      backoff_ms: z.number().int().min(0).default(1000),
+    })
+    .default({ repair_attempts: 2, send_attempts: 3, backoff_ms: 1000 }),
+
+  /**
+   * Time limits in seconds for each tool-mode child session, covering every
+   * prompt sent to it (including repair re-prompts). A session that runs out
+   * of time is aborted.
+   */
+  timeouts: z
+    .object({
+      /**
+       * Topic generation
+       * @default 120
+       */
+      topic: SessionTimeoutSchema.default(120),
+
+      /**
+       * Generating (or refining) one design
+       * @default 600
+       */
+      design: SessionTimeoutSchema.default(600),
+
+      /**
+       * One reviewer's review and scores (or pairwise comparisons)
+       * @default 1200
+       */
+      review: SessionTimeoutSchema.default(1200),
+
+      /**
+       * Per-model overrides, keyed by model name,
+       * e.g. { "openai/o3": { "review": 2400 } }
+       * @default {}
+       */
+      models: z
+        .record(
+          z.string(),
+          z.object({
+            topic: SessionTimeoutSchema.optional(),
+            design: SessionTimeoutSchema.optional(),
+            review: SessionTimeoutSchema.optional(),
+          }),
+        )
+        .default({}),
+    })
+    .default({ topic: 120, design: 600, review: 1200, models: {} }),
+
+  /**
+   * Maximum number of tool-mode model sessions running at once; further
+   * sessions wait in a queue
+   */
+  max_concurrency: z
+    .object({
+      /**
+       * Limit across all models (unlimited if not set)
+       */
+      global: z.number().int().positive().optional(),
+
+      /**
+       * Limits per provider, keyed by the part of the model ID before "/",
+       * e.g. { "openai": 2 }
+       * @default {}
+       */
+      providers: z.record(z.string(), z.number().int().positive()).default({}),
+    })
+    .default({ providers: {} }),
+
+  /**
+   * Saving of tool-mode session transcripts to transcripts/<phase>/<model>-<session ID>.json
+   */
+  transcripts: z
+    .object({
+      /**
+       * Save the full message list of every child session
+       * @default true
+       */
+      enabled: z.boolean().default(true),
+
+      /**
+       * Replace the text of the prompts sent to the models with "[redacted]"
+       * (e.g. when the requirements are confidential)
+       * @default false
+       */
+      redact_prompts: z.boolean().default(false),
+    })
+    .default({ enabled: true, redact_prompts: false }),
+
+  /**
+   * Per-lab ceiling on tool-mode model usage, counted across all phases.
+   * Tools refuse to start once it is reached, and abort their remaining
+   * sessions if it is reached while they run.
+   */
+  budget: z
+    .object({
+      /**
+       * Maximum input + output + reasoning tokens
+       */
+      max_tokens: z.number().int().positive().optional(),
+
+      /**
+       * Maximum cost, as reported by OpenCode for each model reply
+       */
+      max_cost: z.number().positive().optional(),
+    })
+    .optional(),
 });
 
 export type DesignLabConfig = z.infer<typeof DesignLabConfigSchema>;
@@ -54,6 +444,9 @@ export type DesignLabConfig = z.infer<typeof DesignLabConfigSchema>;
 export const DesignArtifactSchema = z.object({
   title: z.string(),
   summary: z.string(),
+  /** Optional: agent-path Markdown designs have Goals / Non-Goals sections */
+  goals: z.array(z.string()).optional(),
+  non_goals: z.array(z.string()).optional(),
   assumptions: z.array(z.string()),
   architecture_overview: z.string(),
   components: z.array(
@@ -85,26 +478,58 @@ export const DesignArtifactSchema = z.object({
 export type DesignArtifact = z.infer<typeof DesignArtifactSchema>;
 
 /**
- * Score schema - what review agents must produce
+ * Build the score schema for a scoring rubric
+ *
+ * Every configured dimension plus "overall" is required and bounded by the
+ * rubric's scale.
  */
-export const ScoreSchema = z.object({
-  design_id: z.string(),
+export function createScoreSchema(scoring: ScoringConfig) {
+  const dimensionScore = z
+    .number()
+    .min(scoring.scale.min)
+    .max(scoring.scale.max);
+  const names = [...scoring.dimensions.map((d) => d.name), "overall"];
+
+  return z.object({
+    design_id: z.string(),
+    reviewer_model: z.string(),
+    scores: z.object(
+      Object.fromEntries(names.map((name) => [name, dimensionScore])),
+    ),
+    justification: z.string(),
+    strengths: z.array(z.string()),
+    weaknesses: z.array(z.string()),
+    missing_considerations: z.array(z.string()),
+  });
+}
+
+/**
+ * Score schema - what review agents must produce (default rubric)
+ */
+export const ScoreSchema = createScoreSchema(DEFAULT_SCORING_CONFIG);
+
+/**
+ * A reviewer's scores for one design under any rubric, keyed by dimension
+ * name plus "overall"
+ */
+export type Score = z.infer<ReturnType<typeof createScoreSchema>>;
+
+/**
+ * Pairwise comparison schema - one reviewer judgment on an ordered pair
+ */
+export const PairwiseComparisonSchema = z.object({
+  comparison_id: z.string(),
+  /** Design shown first */
+  first: z.string(),
+  /** Design shown second */
+  second: z.string(),
+  /** Winning design ID, or "tie" */
+  winner: z.string(),
+  rationale: z.string(),
   reviewer_model: z.string(),
-  scores: z.object({
-    clarity: z.number().min(0).max(10),
-    feasibility: z.number().min(0).max(10),
-    scalability: z.number().min(0).max(10),
-    maintainability: z.number().min(0).max(10),
-    completeness: z.number().min(0).max(10),
-    overall: z.number().min(0).max(10),
-  }),
-  justification: z.string(),
-  strengths: z.array(z.string()),
-  weaknesses: z.array(z.string()),
-  missing_considerations: z.array(z.string()),
 });
 
-export type Score = z.infer<typeof ScoreSchema>;
+export type PairwiseComparison = z.infer<typeof PairwiseComparisonSchema>;
 
 /**
  * Aggregated ranking schema
@@ -116,6 +541,29 @@ export const RankingSchema = z.object({
   score_breakdown: z.record(z.string(), z.number()),
   variance: z.number(),
   reviewer_count: z.number().int(),
+  /** Per-reviewer normalization applied before averaging (score review mode) */
+  normalization: ScoreNormalizationSchema.optional(),
+  /** Method that produced `rank` (score review mode) */
+  aggregation_method: AggregationMethodSchema.optional(),
+  /** Rank of the design under every aggregation method (score review mode) */
+  method_ranks: z.record(AggregationMethodSchema, z.number().int()).optional(),
+  /** Ratings fitted from pairwise comparisons (pairwise review mode only) */
+  ratings: z
+    .object({
+      bradley_terry: z.number(),
+      elo: z.number(),
+    })
+    .optional(),
+  /** Bootstrap confidence intervals over reviewers (score review mode only) */
+  confidence_interval: z
+    .object({
+      level: z.number(),
+      score: z.tuple([z.number(), z.number()]),
+      rank: z.tuple([z.number(), z.number()]),
+    })
+    .optional(),
+  /** Designs whose score intervals overlap this one's: statistically tied */
+  tied_with: z.array(z.string()).optional(),
 });
 
 export type Ranking = z.infer<typeof RankingSchema>;
@@ -1,4 +1,4 @@
-import type { Plugin } from "@opencode-ai/plugin";
+import type { Hooks, Plugin, ToolDefinition } from "@opencode-ai/plugin";
 import type { Config } from "@opencode-ai/sdk";
 
 import {
@@ -10,12 +10,29 @@ import {
 import {
   buildDesignCommand,
   buildInitCommand,
+  buildRefineCommand,
   buildRepowikiCommand,
   buildReviewCommand,
   buildSynthesizeCommand,
 } from "./commands";
 import { loadPluginConfig } from "./config";
+import {
+  createDesignIsolationHook,
+  createSessionParamsHook,
+  createSessionTrackerHook,
+  createWriteGuardHook,
+} from "./hooks";
+import {
+  createAggregateScoresTool,
+  createGenerateDesignsTool,
+  createImportReviewScoresTool,
+  createPrepareBlindReviewTool,
+  createRefineDesignsTool,
+  createReviewDesignsTool,
+} from "./tools";
 import { logger } from "./utils/logger";
+import { sessionEvents } from "./utils/session-events";
+import { createSessionScheduler } from "./utils/session-helpers";
 
 /**
  * OpenCode Design Lab Plugin
@@ -35,7 +52,67 @@ export const DesignLab: Plugin = async (ctx) => {
     logger.info("Design Lab Plugin Loaded");
   }
 
+  // Plugin-side helpers the designer agent calls during orchestration
+  const tools: Record<string, ToolDefinition> = {};
+  if (pluginConfig) {
+    tools.prepare_blind_review = createPrepareBlindReviewTool(
+      ctx,
+      pluginConfig,
+    );
+    tools.import_review_scores = createImportReviewScoresTool(
+      ctx,
+      pluginConfig,
+    );
+    // One scheduler for every tool, so the concurrency limits hold across
+    // tool calls running at the same time
+    const scheduler = createSessionScheduler(pluginConfig.max_concurrency);
+    tools.refine_designs = createRefineDesignsTool(
+      ctx,
+      pluginConfig,
+      scheduler,
+    );
+
+    // Schema-validated JSON pipeline
+    if (pluginConfig.orchestration_mode !== "agent") {
+      tools.generate_designs = createGenerateDesignsTool(
+        ctx,
+        pluginConfig,
+        scheduler,
+      );
+      tools.review_designs = createReviewDesignsTool(
+        ctx,
+        pluginConfig,
+        scheduler,
+      );
+      tools.aggregate_scores = createAggregateScoresTool(ctx, pluginConfig);
+    }
+  }
+
+  // Track which sessions are producing which design, keep design sessions
+  // from reading other designs (PRD §5 design isolation), confine writes to
+  // each task's output_file, forward events to the session waiters, and
+  // apply the configured temperature to the tools' sessions
+  const hooks: Pick<
+    Hooks,
+    "chat.message" | "chat.params" | "tool.execute.before" | "event"
+  > = {};
+  if (pluginConfig) {
+    hooks.event = async ({ event }) => {
+      sessionEvents.publish(event);
+    };
+    const isolationHook = createDesignIsolationHook(ctx);
+    const writeGuardHook = createWriteGuardHook(ctx, pluginConfig);
+    hooks["chat.message"] = createSessionTrackerHook(ctx, pluginConfig);
+    hooks["chat.params"] = createSessionParamsHook();
+    hooks["tool.execute.before"] = async (input, output) => {
+      await isolationHook(input, output);
+      await writeGuardHook(input, output);
+    };
+  }
+
   return {
+    tool: tools,
+    ...hooks,
     config: async (config: Config) => {
       // Always register the init command (cannot be skipped)
       config.command = {
@@ -69,15 +146,21 @@ export const DesignLab: Plugin = async (ctx) => {
           .map((model) => modelSpecs.get(model))
           .filter(isModelSpec);
 
-        const subagentEntries = Array.from(modelSpecs.values()).map((spec) => [
-          spec.agentName,
-          createDesignerModelAgent(spec.model),
-        ]);
+        // The tool pipeline runs its own sessions, so subagents are only
+        // needed when the designer agent may delegate to them
+        const subagentEntries =
+          pluginConfig.orchestration_mode === "tools"
+            ? []
+            : Array.from(modelSpecs.values()).map((spec) => [
+                spec.agentName,
+                createDesignerModelAgent(spec.model, pluginConfig.scoring),
+              ]);
 
         config.agent = {
           ...(config.agent ?? {}),
           designer: createDesignerPrimaryAgent({
             baseOutputDir: pluginConfig.base_output_dir,
+            orchestrationMode: pluginConfig.orchestration_mode,
             designModels: designSpecs,
             reviewModels: reviewSpecs,
           }),
@@ -88,16 +171,25 @@ export const DesignLab: Plugin = async (ctx) => {
           ...(config.command ?? {}),
           "design-lab:design": buildDesignCommand({
             baseOutputDir: pluginConfig.base_output_dir,
+            orchestrationMode: pluginConfig.orchestration_mode,
             designModels: designSpecs,
             reviewModels: reviewSpecs,
           }),
           "design-lab:review": buildReviewCommand({
             baseOutputDir: pluginConfig.base_output_dir,
+            orchestrationMode: pluginConfig.orchestration_mode,
+            designModels: designSpecs,
+            reviewModels: reviewSpecs,
+          }),
+          "design-lab:refine": buildRefineCommand({
+            baseOutputDir: pluginConfig.base_output_dir,
+            orchestrationMode: pluginConfig.orchestration_mode,
             designModels: designSpecs,
             reviewModels: reviewSpecs,
           }),
           "design-lab:synthesize": buildSynthesizeCommand({
             baseOutputDir: pluginConfig.base_output_dir,
+            orchestrationMode: pluginConfig.orchestration_mode,
             designModels: designSpecs,
             reviewModels: reviewSpecs,
           }),
@@ -110,6 +202,7 @@ export const DesignLab: Plugin = async (ctx) => {
           {
             designModels,
             reviewModels,
+            orchestrationMode: pluginConfig.orchestration_mode,
             agentsRegistered: agentKeys,
             commandsRegistered: commandKeys,
           },
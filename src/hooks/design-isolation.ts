@@ -0,0 +1,308 @@
+import type { Hooks, PluginInput } from "@opencode-ai/plugin";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ANONYMIZATION_FILE,
+  BLIND_DESIGNS_DIR,
+} from "../utils/anonymization-helpers";
+import { isPathWithin } from "../utils/lab-helpers";
+import { logger } from "../utils/logger";
+import { getTrackedSession, type TrackedSession } from "./session-tracker";
+
+/**
+ * File in the lab directory where blocked tool calls are logged (JSON lines)
+ */
+export const ISOLATION_LOG_FILE = "isolation-violations.jsonl";
+
+/**
+ * Tools whose arguments can reveal file contents or listings
+ */
+const GUARDED_TOOLS = new Set(["read", "glob", "grep", "bash"]);
+
+/**
+ * Create the tool.execute.before hook that keeps designs independent and
+ * reviews blind
+ *
+ * A design session may read its own design (in any round) and its lab's
+ * task.json, but nothing else under the base directory: other designs,
+ * blind/, and other labs are all rejected. A review session may read its
+ * lab's blind/ copies, task.json and its own output file, but not designs/,
+ * anonymization.json or anything else that could reveal which model wrote a
+ * design. Searches and listings (grep, glob, bash) of the base directory or
+ * anything in it, and wildcards into it, are rejected outside those
+ * exceptions. Blocked attempts are logged to the lab's isolation log and the
+ * error is returned to the agent.
+ */
+export function createDesignIsolationHook(
+  ctx: PluginInput,
+): NonNullable<Hooks["tool.execute.before"]> {
+  return async (input, output) => {
+    if (!GUARDED_TOOLS.has(input.tool)) {
+      return;
+    }
+
+    const session = getTrackedSession(input.sessionID);
+    if (!session) {
+      return;
+    }
+
+    const policy = ISOLATION_POLICIES[session.role];
+    const blockedPath = getToolPaths(input.tool, output.args).find((p) =>
+      isForeignPath(p, session, policy, ctx.directory, input.tool),
+    );
+    if (!blockedPath) {
+      return;
+    }
+
+    logIsolationViolation(session, {
+      sessionID: input.sessionID,
+      tool: input.tool,
+      path: blockedPath,
+      reason: policy.reason,
+      args: output.args,
+    });
+
+    throw new Error(
+      `${policy.label}: ${input.tool} access to "${blockedPath}" is blocked. ${policy.hint}`,
+    );
+  };
+}
+
+/**
+ * What a tracked session may access under the base directory
+ */
+type IsolationPolicy = {
+  label: string;
+  reason: string;
+  hint: string;
+  /** Wildcards matching this are foreign, since they can't be resolved */
+  foreignWildcard: RegExp;
+  /**
+   * Whether the session may access a path (or, for a wildcard, expand the
+   * directory it starts from) under the base directory
+   */
+  isAllowed: (
+    resolved: string,
+    session: TrackedSession,
+    isWildcard: boolean,
+  ) => boolean;
+};
+
+const ISOLATION_POLICIES: Record<TrackedSession["role"], IsolationPolicy> = {
+  design: {
+    label: "Design isolation",
+    reason: "outside own design",
+    hint: "Designs must be produced independently; you may only access your own design file and the lab's task.json.",
+    foreignWildcard: new RegExp(`(^|/)(designs|${BLIND_DESIGNS_DIR})(/|$)`),
+    isAllowed: (resolved, session, isWildcard) =>
+      !isWildcard && isAllowedDesignPath(resolved, session),
+  },
+  review: {
+    label: "Review isolation",
+    reason: "outside blind designs",
+    hint: `Reviews are blind; you may only access the ${BLIND_DESIGNS_DIR}/ design copies, the lab's task.json and your own output file.`,
+    foreignWildcard: new RegExp(
+      `(^|/)(designs(/|$)|${escapeRegExp(ANONYMIZATION_FILE)})`,
+    ),
+    isAllowed: (resolved, session, isWildcard) =>
+      isPathWithin(resolved, path.join(session.labDir, BLIND_DESIGNS_DIR)) ||
+      (!isWildcard &&
+        (resolved === session.outputFile ||
+          resolved === path.join(session.labDir, "task.json"))),
+  },
+};
+
+/**
+ * Collect the path-like arguments of a guarded tool call
+ *
+ * Grep and glob search the project when no path is given, and their
+ * patterns are taken relative to the search path. Bash commands are split
+ * into shell words, so any word that resolves into a protected directory is
+ * caught.
+ */
+function getToolPaths(tool: string, args: Record<string, unknown>): string[] {
+  const strings = (...values: unknown[]) =>
+    values.filter((v): v is string => typeof v === "string" && v.length > 0);
+  const searchPaths = (pattern: unknown) => {
+    const root = strings(args.path)[0] ?? ".";
+    return [
+      root,
+      ...strings(pattern).map((p) =>
+        path.isAbsolute(p) ? p : path.join(root, p),
+      ),
+    ];
+  };
+
+  switch (tool) {
+    case "read":
+      return strings(args.filePath);
+    case "glob":
+      return searchPaths(args.pattern);
+    case "grep":
+      return searchPaths(args.include);
+    case "bash":
+      return strings(args.command).flatMap((command) =>
+        command
+          .split(/[\s;|&<>()]+/)
+          .map((word) => word.replace(/^["'`]+|["'`]+$/g, ""))
+          .filter((word) => word.length > 0),
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check whether a path reaches outside what a session may see
+ *
+ * Everything under the base directory is off limits except what the
+ * session's policy allows, so other labs are covered too. Relative paths are
+ * resolved against both the project and the lab directory, since bash may
+ * run from either.
+ */
+function isForeignPath(
+  value: string,
+  session: TrackedSession,
+  policy: IsolationPolicy,
+  projectDir: string,
+  tool: string,
+): boolean {
+  const baseDir = path.dirname(session.labDir);
+  const isWildcard = /[*?[{]/.test(value);
+
+  if (isWildcard && policy.foreignWildcard.test(value)) {
+    return true;
+  }
+
+  // A wildcard is checked by its fixed leading part, e.g. "<lab>" for
+  // "<lab>/d*/*.md"
+  const target = isWildcard ? getWildcardBase(value) : value;
+  const isAllowed = (resolved: string) =>
+    policy.isAllowed(resolved, session, isWildcard);
+
+  // Above the base directory, grep and glob reach every lab unless the base
+  // directory is hidden (they skip hidden directories such as ".design-lab")
+  const searchRoot = path.resolve(projectDir, target);
+  if (
+    tool !== "read" &&
+    tool !== "bash" &&
+    isPathWithin(baseDir, searchRoot) &&
+    !isHiddenDir(baseDir, projectDir)
+  ) {
+    return true;
+  }
+
+  if (isPathWithin(searchRoot, baseDir) && !isAllowed(searchRoot)) {
+    return true;
+  }
+
+  // Bash words that aren't paths (command names, flags) also resolve into the
+  // lab directory, so inside the lab only existing or protected paths count
+  if (path.isAbsolute(target)) {
+    return false;
+  }
+  const fromLab = path.resolve(session.labDir, target);
+  if (fromLab === session.labDir) {
+    return false;
+  }
+  if (!isPathWithin(fromLab, session.labDir)) {
+    return isPathWithin(fromLab, baseDir);
+  }
+  return (
+    (fs.existsSync(fromLab) ||
+      isPathWithin(fromLab, path.join(session.labDir, "designs")) ||
+      isPathWithin(fromLab, path.join(session.labDir, BLIND_DESIGNS_DIR))) &&
+    !isAllowed(fromLab)
+  );
+}
+
+/**
+ * Check whether a design session may access a path under the base directory:
+ * its output file, its own design file in any round, or its lab's task.json
+ */
+function isAllowedDesignPath(
+  resolved: string,
+  session: TrackedSession,
+): boolean {
+  if (
+    resolved === session.outputFile ||
+    resolved === path.join(session.labDir, "task.json")
+  ) {
+    return true;
+  }
+
+  const designsDir = path.join(session.labDir, "designs");
+  if (!session.designId || !isPathWithin(resolved, designsDir)) {
+    return false;
+  }
+  const parts = path.relative(designsDir, resolved).split(path.sep);
+  const file = parts.pop();
+  return (
+    (file === `${session.designId}.md` ||
+      file === `${session.designId}.json`) &&
+    (parts.length === 0 || (parts.length === 1 && /^round-\d+$/.test(parts[0])))
+  );
+}
+
+/**
+ * Get the part of a wildcard path before its first wildcard segment
+ */
+function getWildcardBase(value: string): string {
+  const segments = value.split("/");
+  const firstWildcard = segments.findIndex((s) => /[*?[{]/.test(s));
+  return (
+    segments.slice(0, firstWildcard).join("/") ||
+    (value.startsWith("/") ? "/" : ".")
+  );
+}
+
+/**
+ * Check whether a directory, or one of its parents in the project, is hidden
+ */
+function isHiddenDir(dir: string, projectDir: string): boolean {
+  return path
+    .relative(projectDir, dir)
+    .split(path.sep)
+    .some((part) => part.startsWith(".") && part !== "..");
+}
+
+/**
+ * Append a blocked tool call to the lab's isolation log
+ */
+export function logIsolationViolation(
+  session: TrackedSession,
+  violation: {
+    sessionID: string;
+    tool: string;
+    path: string;
+    reason?: string;
+    args?: unknown;
+  },
+) {
+  logger.warn(
+    { ...violation, agent: session.agent, designId: session.designId },
+    "Blocked design isolation violation",
+  );
+
+  try {
+    fs.mkdirSync(session.labDir, { recursive: true });
+    fs.appendFileSync(
+      path.join(session.labDir, ISOLATION_LOG_FILE),
+      `${JSON.stringify({
+        timestamp: new Date().toISOString(),
+        agent: session.agent,
+        design_id: session.designId,
+        ...violation,
+      })}\n`,
+    );
+  } catch (err) {
+    logger.error(
+      { labDir: session.labDir, error: String(err) },
+      "Failed to write isolation log",
+    );
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
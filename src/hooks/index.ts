@@ -0,0 +1,16 @@
+export {
+  createSessionTrackerHook,
+  getSessionAgent,
+  getTrackedSession,
+  trackSession,
+} from "./session-tracker";
+export type { TrackedSession } from "./session-tracker";
+export {
+  createDesignIsolationHook,
+  ISOLATION_LOG_FILE,
+} from "./design-isolation";
+export { createWriteGuardHook } from "./write-guard";
+export {
+  createSessionParamsHook,
+  setSessionTemperature,
+} from "./session-params";
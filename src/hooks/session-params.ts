@@ -0,0 +1,24 @@
+import type { Hooks } from "@opencode-ai/plugin";
+
+/** Sampling temperature for sessions the plugin created (tool path) */
+const sessionTemperatures = new Map<string, number>();
+
+/**
+ * Run every LLM call in a session at the given temperature
+ */
+export function setSessionTemperature(sessionID: string, temperature: number) {
+  sessionTemperatures.set(sessionID, temperature);
+}
+
+/**
+ * Create the chat.params hook that applies the temperature set for a session
+ * (the prompt API selects the model, but has no temperature field)
+ */
+export function createSessionParamsHook(): NonNullable<Hooks["chat.params"]> {
+  return async (input, output) => {
+    const temperature = sessionTemperatures.get(input.sessionID);
+    if (temperature !== undefined) {
+      output.temperature = temperature;
+    }
+  };
+}
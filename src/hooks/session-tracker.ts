@@ -0,0 +1,133 @@
+import type { Hooks, PluginInput } from "@opencode-ai/plugin";
+import * as path from "path";
+import type { DesignLabConfig } from "../config";
+import { isDesignerSubagentName } from "../agents";
+import { logger } from "../utils/logger";
+
+/**
+ * A child session working on one design lab task
+ */
+export type TrackedSession = {
+  /** "design" sessions write (or return) one design; "review" sessions review all */
+  role: "design" | "review";
+  /** Absolute path of the lab directory the session works in */
+  labDir: string;
+  /** Design ID (model file stem) a design session produces */
+  designId?: string;
+  /** Absolute path of the single file the session was told to write */
+  outputFile?: string;
+  agent?: string;
+};
+
+const trackedSessions = new Map<string, TrackedSession>();
+
+/** Agent each session runs as, from the messages it receives */
+const sessionAgents = new Map<string, string>();
+
+/**
+ * Register a session created by the plugin (tool path)
+ */
+export function trackSession(sessionID: string, session: TrackedSession) {
+  trackedSessions.set(sessionID, session);
+}
+
+/**
+ * Look up what a session is working on, if it is a tracked lab session
+ */
+export function getTrackedSession(
+  sessionID: string,
+): TrackedSession | undefined {
+  return trackedSessions.get(sessionID);
+}
+
+/**
+ * Look up the agent a session runs as, if it has received a message
+ */
+export function getSessionAgent(sessionID: string): string | undefined {
+  return sessionAgents.get(sessionID);
+}
+
+/**
+ * Create the chat.message hook that tracks delegated subagent sessions
+ * (agent path): when a designer_model_* subagent receives its task, the
+ * output_file path in the prompt tells us its lab, role and design. The agent
+ * of every session is recorded as well.
+ */
+export function createSessionTrackerHook(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+): NonNullable<Hooks["chat.message"]> {
+  return async (input, output) => {
+    if (input.agent) {
+      sessionAgents.set(input.sessionID, input.agent);
+    }
+
+    if (
+      !isDesignerSubagentName(input.agent) ||
+      trackedSessions.has(input.sessionID)
+    ) {
+      return;
+    }
+
+    const text = output.parts
+      .map((part) => (part.type === "text" ? part.text : ""))
+      .join("\n");
+    const session = parseAssignedTask(text, ctx.directory, config);
+    if (!session) {
+      return;
+    }
+
+    trackSession(input.sessionID, { ...session, agent: input.agent });
+    logger.info(
+      { sessionID: input.sessionID, agent: input.agent, ...session },
+      "Tracking delegated lab session",
+    );
+  };
+}
+
+/**
+ * Find the output file a delegated task assigns, preferring a path on a line
+ * that mentions output_file, and derive the lab directory and role from it
+ */
+export function parseAssignedTask(
+  text: string,
+  projectDir: string,
+  config: DesignLabConfig,
+): Omit<TrackedSession, "agent"> | null {
+  const baseDir = path.resolve(projectDir, config.base_output_dir);
+  const labPathPattern = new RegExp(
+    `(?:${escapeRegExp(baseDir)}|${escapeRegExp(config.base_output_dir.replace(/^\.\//, ""))})/([^/\\s"'\`]+)/(designs|reviews)/((?:round-\\d+/)?[^\\s"'\`]+?\\.md)`,
+    "g",
+  );
+
+  const lines = text.split("\n");
+  const candidates = [
+    ...lines.filter((line) => /output_file/i.test(line)),
+    ...lines,
+  ];
+  for (const line of candidates) {
+    const match = labPathPattern.exec(line);
+    labPathPattern.lastIndex = 0;
+    if (!match) {
+      continue;
+    }
+
+    const [, labName, kind, file] = match;
+    const labDir = path.join(baseDir, labName);
+    const outputFile = path.join(labDir, kind, file);
+    return kind === "designs"
+      ? {
+          role: "design",
+          labDir,
+          designId: path.basename(file, ".md"),
+          outputFile,
+        }
+      : { role: "review", labDir, outputFile };
+  }
+
+  return null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,100 @@
+import type { Hooks, PluginInput } from "@opencode-ai/plugin";
+import * as path from "path";
+import type { DesignLabConfig } from "../config";
+import { isDesignerSubagentName } from "../agents";
+import { isPathWithin } from "../utils/lab-helpers";
+import { logger } from "../utils/logger";
+import { logIsolationViolation } from "./design-isolation";
+import { getSessionAgent, getTrackedSession } from "./session-tracker";
+
+/**
+ * Tools that modify a single file given by `filePath`
+ */
+const WRITE_TOOLS = new Set(["write", "edit", "multiedit"]);
+
+/**
+ * Directory the /design-lab:repowiki command writes its wiki to
+ */
+const REPOWIKI_DIR = ".repowiki";
+
+/**
+ * Create the tool.execute.before hook that confines file writes
+ *
+ * - designer_model_* subagents may only write/edit the output_file their
+ *   task assigned; without one, they may not write at all
+ * - the designer primary agent may only write/edit inside base_output_dir,
+ *   or inside .repowiki/ for the repowiki command
+ *
+ * Rejected calls throw, so the error is returned to the agent.
+ */
+export function createWriteGuardHook(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+): NonNullable<Hooks["tool.execute.before"]> {
+  const baseOutputDir = path.resolve(ctx.directory, config.base_output_dir);
+  const repowikiDir = path.resolve(ctx.directory, REPOWIKI_DIR);
+
+  return async (input, output) => {
+    if (!WRITE_TOOLS.has(input.tool)) {
+      return;
+    }
+
+    const agent = getSessionAgent(input.sessionID);
+    const filePath =
+      typeof output.args?.filePath === "string"
+        ? path.resolve(ctx.directory, output.args.filePath)
+        : null;
+
+    if (isDesignerSubagentName(agent)) {
+      const session = getTrackedSession(input.sessionID);
+      if (!session?.outputFile) {
+        reject(input, agent, filePath, {
+          reason: "no output_file assigned",
+          message: `Write guard: ${input.tool} is blocked because this task has no output_file. Ask the designer agent to delegate the task again with an exact output_file path.`,
+        });
+      }
+      if (filePath !== session.outputFile) {
+        reject(input, agent, filePath, {
+          reason: "outside output_file",
+          message: `Write guard: ${input.tool} to "${filePath ?? "unknown file"}" is blocked. You may only write to your assigned output_file: ${session.outputFile}`,
+        });
+      }
+      return;
+    }
+
+    if (
+      agent === "designer" &&
+      (!filePath ||
+        (!isPathWithin(filePath, baseOutputDir) &&
+          !isPathWithin(filePath, repowikiDir)))
+    ) {
+      reject(input, agent, filePath, {
+        reason: "outside base_output_dir",
+        message: `Write guard: ${input.tool} to "${filePath ?? "unknown file"}" is blocked. The designer agent may only write inside ${baseOutputDir} (or ${repowikiDir} for repository docs).`,
+      });
+    }
+  };
+}
+
+function reject(
+  input: { tool: string; sessionID: string },
+  agent: string | undefined,
+  filePath: string | null,
+  details: { reason: string; message: string },
+): never {
+  const session = getTrackedSession(input.sessionID);
+  if (session) {
+    logIsolationViolation(session, {
+      sessionID: input.sessionID,
+      tool: input.tool,
+      path: filePath ?? "",
+      reason: details.reason,
+    });
+  } else {
+    logger.warn(
+      { sessionID: input.sessionID, agent, tool: input.tool, filePath },
+      `Blocked write: ${details.reason}`,
+    );
+  }
+  throw new Error(details.message);
+}
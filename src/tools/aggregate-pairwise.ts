@@ -0,0 +1,355 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  type DesignLabConfig,
+  type PairwiseComparison,
+  type Ranking,
+} from "../config";
+import { isDesignByModel } from "../agents";
+import { getRoundDir } from "../utils/lab-helpers";
+import {
+  formatUsageSection,
+  readLabUsage,
+  type LabUsage,
+} from "../utils/usage-helpers";
+import {
+  deanonymizeDesignId,
+  loadAnonymizationMap,
+} from "../utils/anonymization-helpers";
+import {
+  computeEloRatings,
+  computePairwiseRecords,
+  fitBradleyTerry,
+  TIE,
+} from "../utils/pairwise-helpers";
+
+type RatedRanking = Ranking & { ratings: NonNullable<Ranking["ratings"]> };
+
+const RATING_LABELS = {
+  bradley_terry: "Bradley–Terry",
+  elo: "Elo",
+} as const;
+
+/**
+ * Aggregate pairwise comparisons into rankings and write the results files
+ *
+ * Used by aggregate_scores when review_mode is "pairwise". Returns the tool
+ * output (or an error message).
+ */
+export function aggregatePairwiseComparisons(
+  labDir: string,
+  config: DesignLabConfig,
+  round: number,
+): string {
+  const comparisonsDir = getRoundDir(labDir, "comparisons", round);
+  const resultsDir = getRoundDir(labDir, "results", round);
+
+  if (!fs.existsSync(comparisonsDir)) {
+    return "Error: No comparisons directory found. Run review_designs first.";
+  }
+
+  const comparisonFiles = fs
+    .readdirSync(comparisonsDir)
+    .filter((f) => f.endsWith(".json"));
+  if (comparisonFiles.length === 0) {
+    return "Error: No comparison files found. Run review_designs first.";
+  }
+
+  fs.mkdirSync(resultsDir, { recursive: true });
+
+  // Reviews are blind, so map anonymous design IDs back to the designs
+  const anonymizationMap = loadAnonymizationMap(labDir);
+  const allComparisons: PairwiseComparison[] = [];
+  for (const file of comparisonFiles) {
+    const content = fs.readFileSync(path.join(comparisonsDir, file), "utf-8");
+    for (const c of JSON.parse(content) as PairwiseComparison[]) {
+      allComparisons.push({
+        ...c,
+        first: deanonymizeDesignId(c.first, anonymizationMap),
+        second: deanonymizeDesignId(c.second, anonymizationMap),
+        winner:
+          c.winner === TIE
+            ? TIE
+            : deanonymizeDesignId(c.winner, anonymizationMap),
+      });
+    }
+  }
+
+  // Optionally drop comparisons where the reviewer judged its own design
+  const comparisons = config.exclude_self_scores
+    ? allComparisons.filter(
+        (c) =>
+          !isDesignByModel(c.first, c.reviewer_model) &&
+          !isDesignByModel(c.second, c.reviewer_model),
+      )
+    : allComparisons;
+
+  if (comparisons.length === 0) {
+    return "Error: No comparisons left to aggregate after excluding self-comparisons.";
+  }
+
+  const designIds = [
+    ...new Set(comparisons.flatMap((c) => [c.first, c.second])),
+  ].sort();
+  const records = computePairwiseRecords(comparisons, designIds);
+  const bradleyTerry = fitBradleyTerry(comparisons, designIds);
+  const elo = computeEloRatings(
+    comparisons,
+    designIds,
+    config.pairwise.elo_k_factor,
+  );
+  const ratingMethod = config.pairwise.rating_method;
+  const { min, max } = config.scoring.scale;
+
+  const reviewers = [...new Set(comparisons.map((c) => c.reviewer_model))];
+
+  const rankings: RatedRanking[] = designIds.map((designId) => {
+    // Win rate per reviewer, expressed on the scoring scale
+    const reviewerScores = reviewers.flatMap((reviewer) => {
+      const reviewerComparisons = comparisons.filter(
+        (c) =>
+          c.reviewer_model === reviewer &&
+          (c.first === designId || c.second === designId),
+      );
+      if (reviewerComparisons.length === 0) {
+        return [];
+      }
+      return [min + winRate(reviewerComparisons, designId) * (max - min)];
+    });
+
+    const designComparisons = comparisons.filter(
+      (c) => c.first === designId || c.second === designId,
+    );
+    const averageScore =
+      min + winRate(designComparisons, designId) * (max - min);
+    const variance =
+      reviewerScores.reduce(
+        (sum, s) => sum + Math.pow(s - averageScore, 2),
+        0,
+      ) / reviewerScores.length;
+
+    return {
+      design_id: designId,
+      rank: 0, // Will be set after sorting
+      average_score: averageScore,
+      score_breakdown: {
+        win_rate: winRate(designComparisons, designId),
+        ...records[designId],
+      },
+      variance,
+      reviewer_count: reviewerScores.length,
+      ratings: {
+        bradley_terry: bradleyTerry[designId],
+        elo: elo[designId],
+      },
+    };
+  });
+
+  // Sort by the configured rating (descending) and assign ranks
+  rankings.sort((a, b) => b.ratings[ratingMethod] - a.ratings[ratingMethod]);
+  rankings.forEach((r, i) => {
+    r.rank = i + 1;
+  });
+
+  fs.writeFileSync(
+    path.join(resultsDir, "ranking.json"),
+    JSON.stringify(rankings, null, 2),
+  );
+
+  // Compare with the previous round's rankings, if it was aggregated
+  const previousRankingPath = path.join(
+    getRoundDir(labDir, "results", round - 1),
+    "ranking.json",
+  );
+  const previousRankings =
+    round > 1 && fs.existsSync(previousRankingPath)
+      ? (JSON.parse(fs.readFileSync(previousRankingPath, "utf-8")) as Ranking[])
+      : null;
+
+  const resultsMarkdown = generatePairwiseResultsMarkdown(
+    rankings,
+    comparisons,
+    config,
+    round,
+    previousRankings,
+    readLabUsage(labDir),
+  );
+  fs.writeFileSync(path.join(resultsDir, "results.md"), resultsMarkdown);
+
+  return `Aggregation complete.
+
+**Rankings saved to**: ${path.join(resultsDir, "ranking.json")}
+**Results summary saved to**: ${path.join(resultsDir, "results.md")}${config.exclude_self_scores ? `\n**Self-comparisons excluded**: ${allComparisons.length - comparisons.length}` : ""}
+
+## Final Rankings (${RATING_LABELS[ratingMethod]})
+
+${rankings
+  .map(
+    (r) =>
+      `${r.rank}. **${r.design_id}** - ${RATING_LABELS[ratingMethod]}: ${r.ratings[ratingMethod].toFixed(0)} (win rate: ${(r.score_breakdown.win_rate * 100).toFixed(0)}%)`,
+  )
+  .join("\n")}
+
+View the full results in ${path.join(resultsDir, "results.md")}`;
+}
+
+/**
+ * Share of a design's comparisons it won, counting ties as half a win
+ */
+function winRate(comparisons: PairwiseComparison[], designId: string): number {
+  if (comparisons.length === 0) {
+    return 0;
+  }
+  const points = comparisons.reduce(
+    (sum, c) => sum + (c.winner === designId ? 1 : c.winner === TIE ? 0.5 : 0),
+    0,
+  );
+  return points / comparisons.length;
+}
+
+/**
+ * Show how each design's rating, win rate and rank moved since the previous
+ * round
+ *
+ * The previous round may have been scored rather than compared, in which case
+ * it has no ratings or win rates and only the rank is compared.
+ */
+function formatRoundChanges(
+  rankings: RatedRanking[],
+  previousRankings: Ranking[],
+  round: number,
+  ratingMethod: keyof typeof RATING_LABELS,
+): string {
+  const rows = rankings.map((r) => {
+    const rating = r.ratings[ratingMethod];
+    const previous = previousRankings.find((p) => p.design_id === r.design_id);
+    if (!previous) {
+      return `| ${r.design_id} | N/A | ${rating.toFixed(0)} | N/A | N/A | N/A |`;
+    }
+    const previousRating = previous.ratings?.[ratingMethod];
+    const previousWinRate = previous.score_breakdown.win_rate;
+    const rankChange = previous.rank - r.rank;
+    return `| ${r.design_id} | ${typeof previousRating === "number" ? previousRating.toFixed(0) : "N/A"} | ${rating.toFixed(0)} | ${typeof previousRating === "number" ? formatSigned(rating - previousRating, 0) : "N/A"} | ${typeof previousWinRate === "number" ? `${formatSigned((r.score_breakdown.win_rate - previousWinRate) * 100, 0)} pts` : "N/A"} | ${previous.rank} → ${r.rank}${rankChange > 0 ? " ▲" : rankChange < 0 ? " ▼" : ""} |`;
+  });
+
+  return `## Changes Since Round ${round - 1}
+
+| Design | Round ${round - 1} | Round ${round} | Δ ${RATING_LABELS[ratingMethod]} | Δ Win Rate | Rank |
+|--------|---|---|---|---|---|
+${rows.join("\n")}
+
+Ratings from different rounds come from separate comparisons; small deltas may
+be reviewer noise rather than real improvement.
+
+`;
+}
+
+/**
+ * Format a delta with an explicit sign, avoiding "-0" for values that round to
+ * zero
+ */
+function formatSigned(value: number, digits: number): string {
+  const formatted = value.toFixed(digits);
+  return Number(formatted) > 0
+    ? `+${formatted}`
+    : Number(formatted) === 0
+      ? (0).toFixed(digits)
+      : formatted;
+}
+
+/**
+ * Generate the results markdown file for pairwise review mode
+ */
+function generatePairwiseResultsMarkdown(
+  rankings: RatedRanking[],
+  comparisons: PairwiseComparison[],
+  config: DesignLabConfig,
+  round: number,
+  previousRankings: Ranking[] | null,
+  usage: LabUsage | null,
+): string {
+  const ratingMethod = config.pairwise.rating_method;
+  const designIds = rankings.map((r) => r.design_id);
+
+  const decisive = comparisons.filter((c) => c.winner !== TIE);
+  const firstWins = decisive.filter((c) => c.winner === c.first).length;
+
+  let md = `# Design Lab Results
+
+Generated: ${new Date().toISOString()}
+
+**Review mode**: pairwise (ranked by ${RATING_LABELS[ratingMethod]})
+
+## Summary
+
+| Rank | Design | Bradley–Terry | Elo | W-L-T | Win Rate | Reviewers |
+|------|--------|---------------|-----|-------|----------|-----------|
+${rankings
+  .map(
+    (r) =>
+      `| ${r.rank} | ${r.design_id} | ${r.ratings.bradley_terry.toFixed(0)} | ${r.ratings.elo.toFixed(0)} | ${r.score_breakdown.wins}-${r.score_breakdown.losses}-${r.score_breakdown.ties} | ${(r.score_breakdown.win_rate * 100).toFixed(0)}% | ${r.reviewer_count} |`,
+  )
+  .join("\n")}
+
+Ratings are on an Elo-like scale: a 400-point gap means 10:1 odds of winning.
+
+${previousRankings ? formatRoundChanges(rankings, previousRankings, round, ratingMethod) : ""}## Head-to-Head
+
+Wins of the row design over the column design (ties in parentheses).
+
+| Design | ${designIds.join(" | ")} |
+|--------|${"---|".repeat(designIds.length)}
+${designIds
+  .map((row) => {
+    const cells = designIds.map((column) => {
+      if (row === column) {
+        return "—";
+      }
+      const between = comparisons.filter(
+        (c) =>
+          (c.first === row && c.second === column) ||
+          (c.first === column && c.second === row),
+      );
+      const wins = between.filter((c) => c.winner === row).length;
+      const ties = between.filter((c) => c.winner === TIE).length;
+      return ties > 0 ? `${wins} (${ties})` : `${wins}`;
+    });
+    return `| ${row} | ${cells.join(" | ")} |`;
+  })
+  .join("\n")}
+
+## Position Bias
+
+The first-shown design won ${firstWins} of ${decisive.length} decisive comparisons${decisive.length > 0 ? ` (${((firstWins / decisive.length) * 100).toFixed(0)}%)` : ""}.
+Every pair is shown in both orders, so position bias cancels out in the ratings.
+
+## Key Observations
+
+`;
+
+  const topDesign = rankings[0];
+  md += `### Winner: ${topDesign.design_id}
+
+- **${RATING_LABELS[ratingMethod]} Rating**: ${topDesign.ratings[ratingMethod].toFixed(0)}
+- **Win Rate**: ${(topDesign.score_breakdown.win_rate * 100).toFixed(0)}%
+
+`;
+
+  md += `### Reviewer Rationales\n\n`;
+  for (const ranking of rankings.slice(0, 3)) {
+    const rationales = [
+      ...new Set(
+        comparisons
+          .filter((c) => c.winner === ranking.design_id && c.rationale)
+          .map((c) => c.rationale),
+      ),
+    ].slice(0, 3);
+
+    md += `#### ${ranking.rank}. ${ranking.design_id}\n\n`;
+    md += `**Why it won**:\n${rationales.map((r) => `- ${r}`).join("\n")}\n\n`;
+  }
+
+  md += formatUsageSection(usage);
+
+  return md;
+}
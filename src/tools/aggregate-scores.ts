@@ -5,11 +5,49 @@ import {
 } from "@opencode-ai/plugin";
 import * as fs from "fs";
 import * as path from "path";
-import { type DesignLabConfig, type Score, type Ranking } from "../config";
-import { findMostRecentLab } from "../utils/lab-helpers";
+import {
+  AggregationMethodSchema,
+  type DesignLabConfig,
+  type Score,
+  type Ranking,
+} from "../config";
+import {
+  findLatestRound,
+  getRoundDir,
+  resolveLabPath,
+} from "../utils/lab-helpers";
+import {
+  deanonymizeDesignId,
+  loadAnonymizationMap,
+} from "../utils/anonymization-helpers";
+import {
+  getScoreDimensionNames,
+  readScoreFiles,
+  withWeightedOverall,
+} from "../utils/scoring-helpers";
+import { isDesignByModel } from "../agents";
+import { normalizeScores } from "../utils/normalization-helpers";
+import {
+  computeAgreement,
+  type AgreementReport,
+} from "../utils/agreement-helpers";
+import {
+  bootstrapScoreIntervals,
+  findOverlappingIntervals,
+} from "../utils/bootstrap-helpers";
+import { computeMethodRanks } from "../utils/rank-aggregation-helpers";
+import { aggregatePairwiseComparisons } from "./aggregate-pairwise";
+import {
+  formatUsageSection,
+  readLabUsage,
+  type LabUsage,
+} from "../utils/usage-helpers";
+
+const AGGREGATION_METHODS = AggregationMethodSchema.options;
 
 interface AggregateScoresArgs {
   lab_path?: string;
+  round?: number;
 }
 
 /**
@@ -24,31 +62,54 @@ export function createAggregateScoresTool(
 
 This tool:
 1. Reads all score files from the reviews
-2. Calculates average scores per design
-3. Computes variance/disagreement metrics
-4. Generates a final ranking with results.md
+2. Maps anonymous design IDs (design-A, ...) back to the models that wrote them
+3. Normalizes each reviewer's scores (${config.score_normalization}) and calculates average scores per design${config.exclude_self_scores ? " (excluding reviewers' scores of their own designs)" : ""}
+4. Ranks designs by ${config.aggregation_method} (ranks under mean, median, Borda and Schulze are all recorded for comparison)
+5. Computes variance, bootstrap confidence intervals over reviewers (flagging statistically tied designs), inter-rater agreement (Kendall's W, Krippendorff's alpha, reviewer rank correlations) and a reviewer bias report
+6. Generates a final ranking with results.md (for refinement rounds, including score changes since the previous round)
 
 Use this after review_designs to get the final comparison.`,
     args: {
       lab_path: tool.schema
         .string()
         .describe(
-          `Path to the design lab directory. If not provided, uses the most recent lab.`,
+          `Design lab to use: "latest", "previous" (the lab before the latest), a run ID, a topic or part of one that matches a single lab, or the path of a lab under ${config.base_output_dir}. If not provided, uses the most recent lab.`,
+        )
+        .optional(),
+      round: tool.schema
+        .number()
+        .int()
+        .min(1)
+        .describe(
+          `Refinement round to aggregate (1 = the original designs). If not provided, uses the latest round.`,
         )
         .optional(),
     },
     async execute(args: AggregateScoresArgs) {
       // Find lab directory
-      const labDir = args.lab_path
-        ? path.resolve(ctx.directory, args.lab_path)
-        : findMostRecentLab(ctx.directory, config.base_output_dir);
+      const { labDir, error: selectorError } = resolveLabPath(
+        ctx.directory,
+        config.base_output_dir,
+        args.lab_path,
+      );
 
+      if (selectorError) {
+        return `Error: ${selectorError}. Pass one of these run IDs as lab_path.`;
+      }
       if (!labDir) {
-        return "Error: No design lab found. Run generate_designs first.";
+        return args.lab_path
+          ? `Error: No design lab matches "${args.lab_path}".`
+          : "Error: No design lab found. Run generate_designs first.";
+      }
+
+      const round = args.round ?? findLatestRound(labDir);
+
+      if (config.review_mode === "pairwise") {
+        return aggregatePairwiseComparisons(labDir, config, round);
       }
 
-      const scoresDir = path.join(labDir, "scores");
-      const resultsDir = path.join(labDir, "results");
+      const scoresDir = getRoundDir(labDir, "scores", round);
+      const resultsDir = getRoundDir(labDir, "results", round);
 
       if (!fs.existsSync(scoresDir)) {
         return "Error: No scores directory found. Run review_designs first.";
@@ -56,23 +117,34 @@ Use this after review_designs to get the final comparison.`,
 
       fs.mkdirSync(resultsDir, { recursive: true });
 
-      // Load all score files
-      const scoreFiles = fs
-        .readdirSync(scoresDir)
-        .filter((f) => f.endsWith(".json"));
-      if (scoreFiles.length === 0) {
-        return "Error: No score files found. Run review_designs first.";
+      // Load all score files that match the rubric
+      const validScores = readScoreFiles(scoresDir, config.scoring);
+      if (validScores.length === 0) {
+        return "Error: No valid score files found. Run review_designs first.";
       }
 
-      const allScores: Score[] = [];
-      for (const file of scoreFiles) {
-        const content = fs.readFileSync(path.join(scoresDir, file), "utf-8");
-        allScores.push(JSON.parse(content) as Score);
-      }
+      // Reviews are blind, so map anonymous design IDs back to the designs.
+      // Score files written before the overall was derived from the weights
+      // still carry the reviewer's own overall
+      const anonymizationMap = loadAnonymizationMap(labDir);
+      const allScores: Score[] = validScores.map((score) => ({
+        ...withWeightedOverall(score, config.scoring),
+        design_id: deanonymizeDesignId(score.design_id, anonymizationMap),
+      }));
+
+      // Optionally drop self-scores so reviewers can't inflate their own design,
+      // then calibrate each reviewer so harsh and generous reviewers count equally
+      const rankedScores = normalizeScores(
+        config.exclude_self_scores
+          ? allScores.filter((s) => !isSelfScore(s))
+          : allScores,
+        config.score_normalization,
+        config.scoring,
+      );
 
       // Group scores by design
       const scoresByDesign: Record<string, Score[]> = {};
-      for (const score of allScores) {
+      for (const score of rankedScores) {
         if (!scoresByDesign[score.design_id]) {
           scoresByDesign[score.design_id] = [];
         }
@@ -94,16 +166,8 @@ Use this after review_designs to get the final comparison.`,
           ) / overallScores.length;
 
         // Calculate score breakdown averages
-        const dimensions = [
-          "clarity",
-          "feasibility",
-          "scalability",
-          "maintainability",
-          "completeness",
-          "overall",
-        ] as const;
         const scoreBreakdown: Record<string, number> = {};
-        for (const dim of dimensions) {
+        for (const dim of getScoreDimensionNames(config.scoring)) {
           const dimScores = scores.map((s) => s.scores[dim]);
           scoreBreakdown[dim] =
             dimScores.reduce((a, b) => a + b, 0) / dimScores.length;
@@ -116,39 +180,110 @@ Use this after review_designs to get the final comparison.`,
           score_breakdown: scoreBreakdown,
           variance,
           reviewer_count: scores.length,
+          normalization: config.score_normalization,
+          aggregation_method: config.aggregation_method,
         });
       }
 
-      // Sort by average score (descending) and assign ranks
-      rankings.sort((a, b) => b.average_score - a.average_score);
+      if (rankings.length === 0) {
+        return "Error: No scores left to aggregate after excluding self-scores.";
+      }
+
+      // Rank every design under each aggregation method, then order by the
+      // configured method (average score breaks ties)
+      const methodRanks = computeMethodRanks(rankedScores);
+      for (const ranking of rankings) {
+        ranking.method_ranks = {
+          mean: methodRanks.mean[ranking.design_id],
+          median: methodRanks.median[ranking.design_id],
+          borda: methodRanks.borda[ranking.design_id],
+          schulze: methodRanks.schulze[ranking.design_id],
+        };
+      }
+      const byMethod = methodRanks[config.aggregation_method];
+      rankings.sort(
+        (a, b) =>
+          byMethod[a.design_id] - byMethod[b.design_id] ||
+          b.average_score - a.average_score,
+      );
       rankings.forEach((r, i) => {
         r.rank = i + 1;
       });
 
+      // Resample reviewers to see how stable the ranking is; designs whose
+      // score intervals overlap cannot be told apart and are flagged as ties
+      const intervals = bootstrapScoreIntervals(rankedScores, config.bootstrap);
+      const overlaps = findOverlappingIntervals(intervals);
+      for (const ranking of rankings) {
+        ranking.confidence_interval = {
+          level: config.bootstrap.confidence,
+          ...intervals[ranking.design_id],
+        };
+        ranking.tied_with = rankings
+          .map((r) => r.design_id)
+          .filter((id) => overlaps[ranking.design_id].includes(id));
+      }
+
       // Save rankings JSON
       fs.writeFileSync(
         path.join(resultsDir, "ranking.json"),
         JSON.stringify(rankings, null, 2),
       );
 
+      // Save inter-rater agreement statistics, on the raw scores: excluding
+      // self-scores leaves no design scored by every reviewer (so Kendall's W
+      // has no complete block), and normalization changes the values alpha is
+      // computed on
+      const agreement = computeAgreement(allScores, config.scoring);
+      fs.writeFileSync(
+        path.join(resultsDir, "agreement.json"),
+        JSON.stringify(agreement, null, 2),
+      );
+
+      // Compare with the previous round's rankings, if it was aggregated
+      const previousRankingPath = path.join(
+        getRoundDir(labDir, "results", round - 1),
+        "ranking.json",
+      );
+      const previousRankings =
+        round > 1 && fs.existsSync(previousRankingPath)
+          ? (JSON.parse(
+              fs.readFileSync(previousRankingPath, "utf-8"),
+            ) as Ranking[])
+          : null;
+
       // Generate results.md
-      const resultsMarkdown = generateResultsMarkdown(rankings, allScores);
+      const resultsMarkdown = generateResultsMarkdown(
+        rankings,
+        allScores,
+        agreement,
+        config,
+        round,
+        previousRankings,
+        readLabUsage(labDir),
+      );
       fs.writeFileSync(path.join(resultsDir, "results.md"), resultsMarkdown);
 
       return `Aggregation complete.
 
 **Rankings saved to**: ${path.join(resultsDir, "ranking.json")}
 **Results summary saved to**: ${path.join(resultsDir, "results.md")}
+**Agreement statistics saved to**: ${path.join(resultsDir, "agreement.json")}
+**Round**: ${round}
+**Score normalization**: ${config.score_normalization}
+**Aggregation method**: ${config.aggregation_method}${config.exclude_self_scores ? `\n**Self-scores excluded**: ${allScores.length - rankedScores.length}` : ""}
 
 ## Final Rankings
 
 ${rankings
   .map(
     (r) =>
-      `${r.rank}. **${r.design_id}** - Score: ${r.average_score.toFixed(1)}/10 (variance: ${r.variance.toFixed(2)})`,
+      `${r.rank}. **${r.design_id}** - Score: ${r.average_score.toFixed(1)}/${config.scoring.scale.max} (${formatInterval(r)}, variance: ${r.variance.toFixed(2)})${r.tied_with?.length ? ` — tied with ${r.tied_with.join(", ")}` : ""}`,
   )
   .join("\n")}
 
+**Reviewer agreement**: Kendall's W = ${formatOptional(agreement.kendalls_w.value)} (${agreement.kendalls_w.interpretation})
+
 View the full results in ${path.join(resultsDir, "results.md")}`;
     },
   });
@@ -160,15 +295,14 @@ View the full results in ${path.join(resultsDir, "results.md")}`;
 function generateResultsMarkdown(
   rankings: Ranking[],
   allScores: Score[],
+  agreement: AgreementReport,
+  config: DesignLabConfig,
+  round: number,
+  previousRankings: Ranking[] | null,
+  usage: LabUsage | null,
 ): string {
-  const dimensions = [
-    "clarity",
-    "feasibility",
-    "scalability",
-    "maintainability",
-    "completeness",
-    "overall",
-  ] as const;
+  const { scoring } = config;
+  const dimensions = getScoreDimensionNames(scoring);
 
   // Group scores by reviewer
   const reviewers = [...new Set(allScores.map((s) => s.reviewer_model))];
@@ -177,11 +311,45 @@ function generateResultsMarkdown(
 
 Generated: ${new Date().toISOString()}
 
+**Round**: ${round}${round > 1 ? " (designs revised using reviewer feedback)" : ""}
+
+**Score normalization**: ${config.score_normalization}${config.score_normalization !== "none" ? " (rankings and averages use per-reviewer normalized scores; the reviewer matrix shows raw scores)" : ""}
+
+**Aggregation method**: ${config.aggregation_method}
+
 ## Summary
 
-| Rank | Design | Avg Score | Variance | Reviewers |
-|------|--------|-----------|----------|-----------|
-${rankings.map((r) => `| ${r.rank} | ${r.design_id} | ${r.average_score.toFixed(1)} | ${r.variance.toFixed(2)} | ${r.reviewer_count} |`).join("\n")}
+| Rank | Design | Avg Score | ${Math.round(config.bootstrap.confidence * 100)}% CI | Rank Range | Variance | Reviewers | Tied With |
+|------|--------|-----------|--------|------------|----------|-----------|-----------|
+${rankings.map((r) => `| ${r.rank} | ${r.design_id} | ${r.average_score.toFixed(1)} | ${formatScoreInterval(r)} | ${formatRankInterval(r)} | ${r.variance.toFixed(2)} | ${r.reviewer_count} | ${r.tied_with?.length ? r.tied_with.join(", ") : "—"} |`).join("\n")}
+
+Confidence intervals come from ${config.bootstrap.iterations} bootstrap resamples of the reviewers (seed ${config.bootstrap.seed}).
+Designs whose intervals overlap are statistically indistinguishable and listed as tied.
+
+${previousRankings ? formatRoundChanges(rankings, previousRankings, round, dimensions) : ""}## Aggregation Methods
+
+Rank of each design under every method (shared ranks are ties). The
+configured method, ${config.aggregation_method}, determines the final ranking.
+
+| Design | ${AGGREGATION_METHODS.map((m) => (m === config.aggregation_method ? `**${m}**` : m)).join(" | ")} |
+|--------|${"---|".repeat(AGGREGATION_METHODS.length)}
+${rankings
+  .map(
+    (r) =>
+      `| ${r.design_id} | ${AGGREGATION_METHODS.map((m) => r.method_ranks?.[m] ?? "N/A").join(" | ")} |`,
+  )
+  .join("\n")}
+
+${
+  rankings.some((r) =>
+    AGGREGATION_METHODS.some(
+      (m) =>
+        r.method_ranks?.[m] !== r.method_ranks?.[config.aggregation_method],
+    ),
+  )
+    ? "The methods disagree: the ranking depends on how reviewer opinions are combined."
+    : "All methods agree on the ranking."
+}
 
 ## Detailed Score Breakdown
 
@@ -192,7 +360,7 @@ ${rankings.map((r) => `| ${r.rank} | ${r.design_id} | ${r.average_score.toFixed(
 ${rankings
   .map(
     (r) =>
-      `| ${r.design_id} | ${dimensions.map((d) => r.score_breakdown[d].toFixed(1)).join(" | ")} |`,
+      `| ${r.design_id} | ${dimensions.map((d) => r.score_breakdown[d]?.toFixed(1) ?? "N/A").join(" | ")} |`,
   )
   .join("\n")}
 
@@ -208,24 +376,99 @@ ${reviewers
       const score = allScores.find(
         (s) => s.design_id === r.design_id && s.reviewer_model === reviewer,
       );
-      return score ? score.scores.overall.toFixed(1) : "N/A";
+      if (!score) {
+        return "N/A";
+      }
+      return `${score.scores.overall.toFixed(1)}${isSelfScore(score) ? "*" : ""}`;
     });
     return `| ${reviewer} | ${scores.join(" | ")} |`;
   })
   .join("\n")}
 
+\* Reviewer scoring its own design${config.exclude_self_scores ? " (excluded from rankings)" : ""}.
+
+## Inter-Rater Agreement
+
+Computed on the raw scores, before self-score exclusion and normalization.
+
+- **Kendall's W** (agreement on the ranking by overall score): ${formatOptional(agreement.kendalls_w.value)} — ${agreement.kendalls_w.interpretation} (${agreement.kendalls_w.reviewer_count} reviewers, ${agreement.kendalls_w.design_count} designs)
+
+### Krippendorff's Alpha by Dimension
+
+| Dimension | Alpha | Reliability |
+|-----------|-------|-------------|
+${Object.entries(agreement.krippendorff_alpha)
+  .map(
+    ([dim, a]) =>
+      `| ${dim} | ${formatOptional(a.value)} | ${a.interpretation} |`,
+  )
+  .join("\n")}
+
+### Reviewer Rank Correlation (Spearman)
+
+| Reviewer | ${agreement.reviewers.join(" | ")} |
+|----------|${"---|".repeat(agreement.reviewers.length)}
+${agreement.reviewers
+  .map((a) => {
+    const cells = agreement.reviewers.map((b) => {
+      if (a === b) {
+        return "—";
+      }
+      const pair = agreement.reviewer_correlations.find(
+        (c) =>
+          (c.reviewer_a === a && c.reviewer_b === b) ||
+          (c.reviewer_a === b && c.reviewer_b === a),
+      );
+      return formatOptional(pair?.spearman_rho ?? null, true);
+    });
+    return `| ${a} | ${cells.join(" | ")} |`;
+  })
+  .join("\n")}
+
+Low agreement means the ranking is closer to noise than consensus; treat
+small score differences between designs with caution.
+
+## Reviewer Bias
+
+Own Design is the reviewer's overall score for the design its model wrote.
+Offset is the reviewer's mean difference from the other reviewers' average
+for the same design; positive values mean the reviewer scores generously.
+
+| Reviewer | Own Design | Others (avg) | Self-Preference | Offset vs Consensus |
+|----------|------------|--------------|-----------------|---------------------|
+${computeReviewerBias(allScores)
+  .map(
+    (b) =>
+      `| ${b.reviewer} | ${formatOptional(b.ownScore)} | ${formatOptional(b.othersAverage)} | ${formatOptional(b.selfPreference, true)} | ${formatOptional(b.consensusOffset, true)} |`,
+  )
+  .join("\n")}
+
 ## Key Observations
 
 `;
 
-  // Add top design summary
+  // Add top design summary, unless its interval overlaps a runner-up's
   const topDesign = rankings[0];
-  md += `### Winner: ${topDesign.design_id}
+  const contenders = rankings.filter(
+    (r) => r === topDesign || topDesign.tied_with?.includes(r.design_id),
+  );
+  if (contenders.length > 1) {
+    md += `### Winner: no clear winner
+
+The ${Math.round(config.bootstrap.confidence * 100)}% confidence intervals of the top designs overlap, so the
+reviewers cannot reliably separate them:
+
+${contenders.map((r) => `- **${r.design_id}**: ${r.average_score.toFixed(1)}/${scoring.scale.max} (${formatInterval(r)})`).join("\n")}
+
+`;
+  } else {
+    md += `### Winner: ${topDesign.design_id}
 
-- **Average Score**: ${topDesign.average_score.toFixed(1)}/10
+- **Average Score**: ${topDesign.average_score.toFixed(1)}/${scoring.scale.max} (${formatInterval(topDesign)})
 - **Variance**: ${topDesign.variance.toFixed(2)} (${topDesign.variance < 1 ? "high consensus" : topDesign.variance < 2 ? "moderate consensus" : "low consensus"})
 
 `;
+  }
 
   // Add strength/weakness summary for top designs
   md += `### Strengths and Weaknesses\n\n`;
@@ -245,5 +488,140 @@ ${reviewers
     md += `**Weaknesses**:\n${weaknesses.map((w) => `- ${w}`).join("\n")}\n\n`;
   }
 
+  md += formatUsageSection(usage);
+
   return md;
 }
+
+/**
+ * Show how each design's scores and rank moved since the previous round
+ */
+function formatRoundChanges(
+  rankings: Ranking[],
+  previousRankings: Ranking[],
+  round: number,
+  dimensions: string[],
+): string {
+  const rows = rankings.map((r) => {
+    const previous = previousRankings.find((p) => p.design_id === r.design_id);
+    if (!previous) {
+      return `| ${r.design_id} | N/A | ${r.average_score.toFixed(1)} | N/A | N/A |${dimensions.map(() => " N/A |").join("")}`;
+    }
+    const rankChange = previous.rank - r.rank;
+    const dimensionDeltas = dimensions.map((d) => {
+      const before = previous.score_breakdown[d];
+      const after = r.score_breakdown[d];
+      return ` ${
+        typeof before === "number" && typeof after === "number"
+          ? formatOptional(after - before, true)
+          : "N/A"
+      } |`;
+    });
+    return `| ${r.design_id} | ${previous.average_score.toFixed(1)} | ${r.average_score.toFixed(1)} | ${formatOptional(r.average_score - previous.average_score, true)} | ${previous.rank} → ${r.rank}${rankChange > 0 ? " ▲" : rankChange < 0 ? " ▼" : ""} |${dimensionDeltas.join("")}`;
+  });
+
+  return `## Changes Since Round ${round - 1}
+
+| Design | Round ${round - 1} | Round ${round} | Δ Score | Rank | ${dimensions.map((d) => `Δ ${d}`).join(" | ")} |
+|--------|---|---|---|---|${"---|".repeat(dimensions.length)}
+${rows.join("\n")}
+
+Scores from different rounds come from separate reviews; small deltas may be
+reviewer noise rather than real improvement.
+
+`;
+}
+
+/**
+ * Check whether a reviewer scored the design its own model wrote
+ */
+function isSelfScore(score: Score): boolean {
+  return isDesignByModel(score.design_id, score.reviewer_model);
+}
+
+type ReviewerBias = {
+  reviewer: string;
+  ownScore: number | null;
+  othersAverage: number | null;
+  selfPreference: number | null;
+  consensusOffset: number | null;
+};
+
+/**
+ * Compare each reviewer's overall scores with its own design, other designs,
+ * and the leave-one-out consensus of the remaining reviewers
+ */
+function computeReviewerBias(allScores: Score[]): ReviewerBias[] {
+  const reviewers = [...new Set(allScores.map((s) => s.reviewer_model))];
+
+  return reviewers.map((reviewer) => {
+    const reviewerScores = allScores.filter(
+      (s) => s.reviewer_model === reviewer,
+    );
+    const own = reviewerScores.filter(isSelfScore);
+    const others = reviewerScores.filter((s) => !isSelfScore(s));
+
+    const offsets = reviewerScores.flatMap((score) => {
+      const consensusScores = allScores
+        .filter(
+          (s) =>
+            s.design_id === score.design_id && s.reviewer_model !== reviewer,
+        )
+        .map((s) => s.scores.overall);
+      const consensus = mean(consensusScores);
+      return consensus === null ? [] : [score.scores.overall - consensus];
+    });
+
+    const ownScore = mean(own.map((s) => s.scores.overall));
+    const othersAverage = mean(others.map((s) => s.scores.overall));
+
+    return {
+      reviewer,
+      ownScore,
+      othersAverage,
+      selfPreference:
+        ownScore !== null && othersAverage !== null
+          ? ownScore - othersAverage
+          : null,
+      consensusOffset: mean(offsets),
+    };
+  });
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function formatScoreInterval(ranking: Ranking): string {
+  const ci = ranking.confidence_interval;
+  return ci ? `${ci.score[0].toFixed(1)}–${ci.score[1].toFixed(1)}` : "N/A";
+}
+
+function formatRankInterval(ranking: Ranking): string {
+  const ci = ranking.confidence_interval;
+  if (!ci) {
+    return "N/A";
+  }
+  return ci.rank[0] === ci.rank[1]
+    ? `${ci.rank[0]}`
+    : `${ci.rank[0]}–${ci.rank[1]}`;
+}
+
+function formatInterval(ranking: Ranking): string {
+  const ci = ranking.confidence_interval;
+  return ci
+    ? `${Math.round(ci.level * 100)}% CI ${formatScoreInterval(ranking)}`
+    : "no CI";
+}
+
+function formatOptional(value: number | null, signed = false): string {
+  if (value === null) {
+    return "N/A";
+  }
+  // Avoid printing "-0.00" for offsets that round to zero
+  const formatted = (Math.abs(value) < 0.005 ? 0 : value).toFixed(2);
+  return signed && Number(formatted) > 0 ? `+${formatted}` : formatted;
+}
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DesignLabConfigSchema } from "../config";
+import { listLabs } from "../utils/lab-helpers";
+import {
+  finishPhaseRun,
+  readLabManifest,
+  startPhaseRun,
+  updateModelRun,
+} from "../utils/lab-manifest";
+import { createSessionScheduler } from "../utils/session-helpers";
+import { createGenerateDesignsTool } from "./generate-designs";
+import {
+  LAB_ID,
+  MODELS,
+  createFakeContext,
+  createTestLab,
+  createToolContext,
+  design,
+} from "./test-helpers";
+
+describe("generate_designs with an unfinished lab", () => {
+  let projectDir: string;
+  let labDir: string;
+
+  const config = DesignLabConfigSchema.parse({
+    design_models: MODELS,
+    transcripts: { enabled: false },
+  });
+
+  beforeEach(() => {
+    ({ projectDir, labDir } = createTestLab());
+    // The first model finished, the second failed
+    startPhaseRun(labDir, "generate", 1, MODELS, "cache");
+    for (const model of MODELS) {
+      updateModelRun(labDir, "generate", 1, model, { status: "running" });
+    }
+    updateModelRun(labDir, "generate", 1, MODELS[0], {
+      status: "complete",
+      output: "designs/gpt-5.json",
+    });
+    updateModelRun(labDir, "generate", 1, MODELS[1], {
+      status: "failed",
+      error: "Timed out",
+    });
+    finishPhaseRun(labDir, "generate", 1);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const generate = (resume?: boolean) => {
+    const { ctx, prompts } = createFakeContext(projectDir, () =>
+      JSON.stringify(design),
+    );
+    const result = createGenerateDesignsTool(
+      ctx,
+      config,
+      createSessionScheduler(config.max_concurrency),
+    ).execute(
+      { requirements: "Cache reads", topic: "cache", resume },
+      createToolContext(),
+    );
+    return { result, prompts };
+  };
+
+  it("starts a new lab and points out the unfinished one by default", async () => {
+    const { result, prompts } = generate();
+
+    const output = await result;
+    expect(output).toContain(`lab ${LAB_ID} has unfinished designs`);
+    expect(output).toContain("2 successful, 0 failed");
+    expect(prompts).toHaveLength(2);
+
+    const labs = listLabs(projectDir, ".design-lab");
+    expect(labs).toHaveLength(2);
+    expect(readLabManifest(labDir)?.phases[0].status).toBe("incomplete");
+  });
+
+  it("resumes the unfinished lab when asked to", async () => {
+    const { result, prompts } = generate(true);
+
+    const output = await result;
+    expect(output).toContain(
+      `**Resumed**: unfinished lab ${LAB_ID} (1 of 2 designs already finished)`,
+    );
+    expect(output).toContain("1 successful, 0 failed");
+    expect(prompts).toHaveLength(1);
+
+    expect(listLabs(projectDir, ".design-lab")).toHaveLength(1);
+    const run = readLabManifest(labDir)?.phases[0];
+    expect(run?.status).toBe("complete");
+    expect(run?.models[MODELS[1]]).toMatchObject({
+      status: "complete",
+      attempts: 2,
+    });
+    expect(fs.existsSync(path.join(labDir, "designs", "claude-4.md"))).toBe(
+      true,
+    );
+  });
+});
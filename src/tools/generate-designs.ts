@@ -13,18 +13,39 @@ import {
 import { createDesignAgent } from "../agents";
 import {
   createAgentSession,
+  createQueueProgress,
   sendPrompt,
-  pollForCompletion,
+  waitForCompletion,
   extractSessionOutput,
-  extractJSON,
+  getAnsweringModel,
+  requestValidJSON,
   sanitizeForFilename,
+  startSessionTimeout,
   getModelShortName,
+  type SessionScheduler,
 } from "../utils/session-helpers";
+import { formatDesignAsMarkdown } from "../utils/design-markdown";
 import { logger } from "../utils/logger";
+import { saveSessionTranscripts } from "../utils/transcript-helpers";
+import { setSessionTemperature, trackSession } from "../hooks";
+import {
+  checkLabBudget,
+  createUsageTracker,
+  type UsageTracker,
+} from "../utils/usage-helpers";
+import { createRunId, listLabs, loadRequirements } from "../utils/lab-helpers";
+import {
+  findPhaseRun,
+  finishPhaseRun,
+  readLabManifest,
+  startPhaseRun,
+  updateModelRun,
+} from "../utils/lab-manifest";
 
 interface GenerateDesignsArgs {
   requirements: string;
   topic?: string;
+  resume?: boolean;
 }
 
 /**
@@ -33,6 +54,7 @@ interface GenerateDesignsArgs {
 export function createGenerateDesignsTool(
   ctx: PluginInput,
   config: DesignLabConfig,
+  scheduler: SessionScheduler,
 ): ToolDefinition {
   return tool({
     description: `Generate multiple independent design proposals for a technical system.
@@ -42,6 +64,8 @@ ${config.design_models.map((m) => `- ${m}`).join("\n")}
 
 Each model generates a design completely independently, without seeing other models' outputs.
 
+Each call creates a new lab with a unique run ID (date, time and a short hash); the topic is recorded in the lab's metadata. If a previous call for the same topic and requirements did not finish (cancelled, failed models or interrupted), pass resume: true to continue that lab and only generate the failed or missing designs.
+
 Use this when you want to explore multiple approaches to a design problem and compare them.`,
     args: {
       requirements: tool.schema
@@ -55,134 +79,244 @@ Use this when you want to explore multiple approaches to a design problem and co
           "Optional short topic name (2-4 words) for the design session. If not provided, one will be generated.",
         )
         .optional(),
+      resume: tool.schema
+        .boolean()
+        .describe(
+          "Continue the newest unfinished lab with the same topic and requirements instead of starting a new one. Defaults to false.",
+        )
+        .optional(),
     },
     async execute(args: GenerateDesignsArgs, toolContext) {
       const { requirements, topic: userTopic } = args;
       const sessionID = toolContext.sessionID;
+      const usage = createUsageTracker(ctx, config, toolContext.abort);
+      try {
+        // Generate topic if not provided
+        const topic = userTopic
+          ? sanitizeForFilename(userTopic)
+          : await generateTopic(
+              ctx,
+              config,
+              scheduler,
+              requirements,
+              sessionID,
+              usage,
+            );
 
-      // Generate topic if not provided
-      const topic = userTopic
-        ? sanitizeForFilename(userTopic)
-        : await generateTopic(ctx, config, requirements, sessionID);
-
-      // Create output directory
-      const date = new Date().toISOString().split("T")[0];
-      const labDir = path.join(
-        ctx.directory,
-        config.base_output_dir,
-        `${date}-${topic}`,
-      );
-
-      // Check if directory already exists (prevent duplicates from retries)
-      if (fs.existsSync(labDir)) {
-        logger.warn({ labDir }, "Lab directory already exists, using existing");
-        return `Error: Lab directory already exists at ${labDir}. This may be from a previous attempt. Please check the existing designs or delete the directory to retry.`;
-      }
-
-      const designsDir = path.join(labDir, "designs");
-      const reviewsDir = path.join(labDir, "reviews");
-      const scoresDir = path.join(labDir, "scores");
-
-      fs.mkdirSync(designsDir, { recursive: true });
-      fs.mkdirSync(reviewsDir, { recursive: true });
-      fs.mkdirSync(scoresDir, { recursive: true });
-
-      // Save task requirements
-      const taskData = {
-        requirements,
-        topic,
-        created: new Date().toISOString(),
-        design_models: config.design_models,
-        review_models: config.review_models ?? config.design_models,
-      };
-      fs.writeFileSync(
-        path.join(labDir, "task.json"),
-        JSON.stringify(taskData, null, 2),
-      );
-
-      // Generate designs from each model in parallel
-      const designPromises = config.design_models.map(async (model) => {
-        try {
+        // Find the newest lab for this topic whose generation did not finish
+        // and that was given the same requirements; it is only resumed when
+        // asked to, otherwise a new run is started
+        const unfinishedLabs = listLabs(
+          ctx.directory,
+          config.base_output_dir,
+        ).filter((lab) => {
+          const run = findPhaseRun(readLabManifest(lab.dir), "generate", 1);
+          return (
+            lab.topic === topic &&
+            run !== undefined &&
+            run.status !== "complete"
+          );
+        });
+        const unfinishedLab = unfinishedLabs.find(
+          (lab) => loadRequirements(lab.dir)?.trim() === requirements.trim(),
+        );
+        if (unfinishedLabs.length > 0 && !unfinishedLab) {
           logger.info(
-            { model },
-            `Starting design generation for model: ${model}`,
+            { topic, labs: unfinishedLabs.map((lab) => lab.id) },
+            "Not resuming unfinished labs for this topic: requirements differ",
           );
+        }
+        const resumedLab = args.resume ? unfinishedLab : undefined;
+        const resuming = resumedLab !== undefined;
+        const created = new Date();
+        const runId = resumedLab?.id ?? createRunId(topic, created);
+        const labDir =
+          resumedLab?.dir ??
+          path.join(ctx.directory, config.base_output_dir, runId);
+
+        const designsDir = path.join(labDir, "designs");
+        const reviewsDir = path.join(labDir, "reviews");
+        const scoresDir = path.join(labDir, "scores");
+
+        fs.mkdirSync(designsDir, { recursive: true });
+        fs.mkdirSync(reviewsDir, { recursive: true });
+        fs.mkdirSync(scoresDir, { recursive: true });
+
+        // A resumed lab's earlier usage counts towards the budget
+        if (resuming) {
+          const budgetReached = checkLabBudget(config, labDir);
+          if (budgetReached) {
+            await usage.finish(labDir);
+            await saveSessionTranscripts(ctx, config, labDir, usage.sessions());
+            return `Error: Budget reached for this lab (${budgetReached}). Raise the budget in the config to continue.`;
+          }
+          usage.setLab(labDir);
+        }
 
-          const design = await generateDesign(
-            ctx,
-            config,
-            model,
+        // Save task requirements
+        if (!resuming) {
+          const taskData = {
+            run_id: runId,
             requirements,
-            sessionID,
+            topic,
+            created: created.toISOString(),
+            design_models: config.design_models,
+            review_models: config.review_models ?? config.design_models,
+          };
+          fs.writeFileSync(
+            path.join(labDir, "task.json"),
+            JSON.stringify(taskData, null, 2),
+          );
+        }
+
+        // When resuming, keep the designs that were finished before
+        const { models } = startPhaseRun(
+          labDir,
+          "generate",
+          1,
+          config.design_models,
+          topic,
+        );
+        if (resuming) {
+          logger.info(
+            { labDir, remaining: models },
+            "Resuming unfinished design generation",
           );
+        }
+        const resumeNote = resuming
+          ? `\n**Resumed**: unfinished lab ${runId} (${config.design_models.length - models.length} of ${config.design_models.length} designs already finished)`
+          : unfinishedLab
+            ? `\n\nNote: lab ${unfinishedLab.id} has unfinished designs for the same topic and requirements; pass resume: true to continue it instead of starting a new lab.`
+            : "";
+
+        // Generate designs from each model in parallel, within the
+        // concurrency limits
+        const onQueuePosition = createQueueProgress(
+          toolContext,
+          "Generating designs",
+          models,
+        );
+        const designPromises = models.map(async (model) => {
+          try {
+            const { design, answeringModel } = await scheduler.run(
+              model,
+              () => {
+                logger.info(
+                  { model },
+                  `Starting design generation for model: ${model}`,
+                );
+                updateModelRun(labDir, "generate", 1, model, {
+                  status: "running",
+                });
+                return generateDesign(
+                  ctx,
+                  config,
+                  model,
+                  requirements,
+                  labDir,
+                  sessionID,
+                  usage,
+                );
+              },
+              onQueuePosition(model),
+            );
 
-          // Validate design schema
-          const validationResult = DesignArtifactSchema.safeParse(design);
-          if (!validationResult.success) {
+            // Save design as JSON, recording the model that answered (outside
+            // the artifact schema, so reviewers never see it)
+            const modelShortName = getModelShortName(model);
+            const designFile = path.join(
+              designsDir,
+              `${sanitizeForFilename(modelShortName)}.json`,
+            );
+            fs.writeFileSync(
+              designFile,
+              JSON.stringify({ ...design, model: answeringModel }, null, 2),
+            );
+            logger.info({ model, designFile }, "Design saved as JSON");
+
+            // Also save as markdown for human readability
+            const markdownFile = path.join(
+              designsDir,
+              `${sanitizeForFilename(modelShortName)}.md`,
+            );
+            const markdown = formatDesignAsMarkdown(design, answeringModel);
+            fs.writeFileSync(markdownFile, markdown);
+            logger.info({ model, markdownFile }, "Design saved as Markdown");
+
+            updateModelRun(labDir, "generate", 1, model, {
+              status: "complete",
+              output: path.relative(labDir, designFile),
+            });
+            return { model, success: true };
+          } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
             logger.error(
-              { model, errors: validationResult.error.issues },
-              "Design schema validation failed",
+              { model, error: errorMsg },
+              "Design generation failed",
             );
-            return {
-              model,
-              success: false,
-              error: `Schema validation failed: ${validationResult.error.issues
-                .map((i) => `${i.path.join(".")}: ${i.message}`)
-                .join(", ")}`,
-            };
+            updateModelRun(labDir, "generate", 1, model, {
+              status: usage.signal.aborted ? "cancelled" : "failed",
+              error: errorMsg,
+            });
+            return { model, success: false, error: errorMsg };
+          }
+        });
+
+        // Run all design generations in parallel
+        const settledResults = await Promise.allSettled(designPromises);
+
+        // Process results
+        const results: Array<{
+          model: string;
+          success: boolean;
+          error?: string;
+        }> = settledResults.map((result) => {
+          if (result.status === "fulfilled") {
+            return result.value;
+          } else {
+            return { model: "unknown", success: false, error: result.reason };
           }
+        });
+
+        const successCount = results.filter((r) => r.success).length;
+        const failCount = results.filter((r) => !r.success).length;
+
+        await usage.finish(labDir);
+        await saveSessionTranscripts(ctx, config, labDir, usage.sessions());
+        const budgetReached = usage.budgetExceeded();
+        const phaseStatus = finishPhaseRun(
+          labDir,
+          "generate",
+          1,
+          budgetReached
+            ? `budget reached (${budgetReached})`
+            : toolContext.abort.aborted
+              ? "cancelled"
+              : undefined,
+        );
+        if (budgetReached) {
+          return `Design generation stopped: budget reached (${budgetReached}).
+
+**Lab Directory**: ${labDir}${resumeNote}
+
+**Results**: ${successCount} saved before the budget was reached
+
+Raise the budget and run generate_designs again with the same requirements, topic "${topic}" and resume: true to generate the remaining designs.`;
+        }
+        if (toolContext.abort.aborted) {
+          return `Design generation cancelled.
 
-          // Save design as JSON
-          const modelShortName = getModelShortName(model);
-          const designFile = path.join(
-            designsDir,
-            `${sanitizeForFilename(modelShortName)}.json`,
-          );
-          fs.writeFileSync(designFile, JSON.stringify(design, null, 2));
-          logger.info({ model, designFile }, "Design saved as JSON");
+**Lab Directory**: ${labDir}${resumeNote}
 
-          // Also save as markdown for human readability
-          const markdownFile = path.join(
-            designsDir,
-            `${sanitizeForFilename(modelShortName)}.md`,
-          );
-          const markdown = formatDesignAsMarkdown(
-            design as DesignArtifact,
-            model,
-          );
-          fs.writeFileSync(markdownFile, markdown);
-          logger.info({ model, markdownFile }, "Design saved as Markdown");
-
-          return { model, success: true };
-        } catch (err) {
-          const errorMsg = err instanceof Error ? err.message : String(err);
-          logger.error({ model, error: errorMsg }, "Design generation failed");
-          return { model, success: false, error: errorMsg };
-        }
-      });
-
-      // Run all design generations in parallel
-      const settledResults = await Promise.allSettled(designPromises);
-
-      // Process results
-      const results: Array<{
-        model: string;
-        success: boolean;
-        error?: string;
-      }> = settledResults.map((result) => {
-        if (result.status === "fulfilled") {
-          return result.value;
-        } else {
-          return { model: "unknown", success: false, error: result.reason };
-        }
-      });
+**Results**: ${successCount} saved before the cancel
 
-      const successCount = results.filter((r) => r.success).length;
-      const failCount = results.filter((r) => !r.success).length;
+Run generate_designs again with the same requirements, topic "${topic}" and resume: true to generate the remaining designs.`;
+        }
 
-      return `Design generation complete.
+        return `Design generation complete.
 
 **Lab Directory**: ${labDir}
+**Run ID**: ${runId}${resumeNote}
 
 **Results**: ${successCount} successful, ${failCount} failed
 
@@ -195,88 +329,77 @@ ${results
   .join("\n")}
 
 ${
-  successCount >= 2
-    ? `\nNext step: Run the review_designs tool to evaluate and compare the designs.`
-    : `\nWarning: At least 2 successful designs are needed for meaningful comparison.`
-}`;
+  phaseStatus === "incomplete"
+    ? `\nRun generate_designs again with the same requirements, topic "${topic}" and resume: true to retry the failed models.\n`
+    : ""
+}${
+          successCount >= 2
+            ? `\nNext step: Run the review_designs tool to evaluate and compare the designs.`
+            : `\nWarning: At least 2 successful designs are needed for meaningful comparison.`
+        }`;
+      } finally {
+        // finish() stops the tracker on the normal paths; make sure it also
+        // stops listening when something throws, e.g. topic generation
+        usage.dispose();
+      }
     },
   });
 }
 
 /**
- * Format a design artifact as markdown for human readability
- */
-function formatDesignAsMarkdown(design: DesignArtifact, model: string): string {
-  let md = `# ${design.title}\n\n`;
-  md += `**Model**: ${model}\n\n`;
-  md += `## Summary\n\n${design.summary}\n\n`;
-
-  md += `## Assumptions\n\n`;
-  design.assumptions.forEach((a: string) => (md += `- ${a}\n`));
-  md += `\n`;
-
-  md += `## Architecture Overview\n\n${design.architecture_overview}\n\n`;
-
-  md += `## Components\n\n`;
-  design.components.forEach((c: DesignArtifact["components"][0]) => {
-    md += `### ${c.name}\n\n${c.description}\n\n**Responsibilities**:\n`;
-    c.responsibilities.forEach((r: string) => (md += `- ${r}\n`));
-    md += `\n`;
-  });
-
-  md += `## Data Flow\n\n${design.data_flow}\n\n`;
-
-  md += `## Tradeoffs\n\n`;
-  design.tradeoffs.forEach((t: DesignArtifact["tradeoffs"][0]) => {
-    md += `### ${t.aspect}\n\n`;
-    md += `**Options**: ${t.options.join(", ")}\n\n`;
-    md += `**Chosen**: ${t.chosen}\n\n`;
-    md += `**Rationale**: ${t.rationale}\n\n`;
-  });
-
-  md += `## Risks\n\n`;
-  design.risks.forEach((r: DesignArtifact["risks"][0]) => {
-    md += `### ${r.risk} (Impact: ${r.impact})\n\n`;
-    md += `**Mitigation**: ${r.mitigation}\n\n`;
-  });
-
-  md += `## Open Questions\n\n`;
-  design.open_questions.forEach((q: string) => (md += `- ${q}\n`));
-
-  return md;
-}
-
-/**
- * Generate a topic name from requirements
+ * Generate a topic name from requirements, within the concurrency limits
  */
 async function generateTopic(
   ctx: PluginInput,
-  _config: DesignLabConfig,
+  config: DesignLabConfig,
+  scheduler: SessionScheduler,
   requirements: string,
-  parentSessionID?: string,
+  parentSessionID: string | undefined,
+  usage: UsageTracker,
 ): Promise<string> {
-  // Note: topic_generator_model is available in config for future use
-  // when OpenCode SDK supports explicit model selection in sessions
+  const model = config.topic_generator_model ?? config.design_models[0];
+  return scheduler.run(model, () =>
+    runTopicSession(ctx, config, model, requirements, parentSessionID, usage),
+  );
+}
 
+async function runTopicSession(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+  model: string,
+  requirements: string,
+  parentSessionID: string | undefined,
+  usage: UsageTracker,
+): Promise<string> {
+  const abortSignal = usage.signal;
   const sessionID = await createAgentSession(
     ctx,
     parentSessionID,
     "Topic Generation",
     ctx.directory,
+    abortSignal,
   );
+  usage.track(sessionID, "topic", model);
+  const timeout = startSessionTimeout(config, "topic", model);
 
   const prompt = `Generate a concise 2-4 word topic name for this design task. Output ONLY the topic name, nothing else.
 
 Requirements:
 ${requirements.substring(0, 500)}`;
 
-  await sendPrompt(ctx, sessionID, prompt, {
-    write: false,
-    edit: false,
-    bash: false,
-  });
+  await sendPrompt(
+    ctx,
+    sessionID,
+    prompt,
+    {
+      write: false,
+      edit: false,
+      bash: false,
+    },
+    { retry: config.retries, timeout, abortSignal, model },
+  );
 
-  await pollForCompletion(ctx, sessionID);
+  await waitForCompletion(ctx, sessionID, { timeout, abortSignal });
   const output = await extractSessionOutput(ctx, sessionID);
 
   return sanitizeForFilename(output.trim());
@@ -284,22 +407,38 @@ ${requirements.substring(0, 500)}`;
 
 /**
  * Generate a single design using a specific model
+ *
+ * @returns The design and the model that actually answered
  */
 async function generateDesign(
   ctx: PluginInput,
   config: DesignLabConfig,
   model: string,
   requirements: string,
-  parentSessionID?: string,
-): Promise<unknown> {
+  labDir: string,
+  parentSessionID: string | undefined,
+  usage: UsageTracker,
+): Promise<{ design: DesignArtifact; answeringModel: string }> {
   const agentConfig = createDesignAgent(model, config.design_agent_temperature);
+  const abortSignal = usage.signal;
 
   const sessionID = await createAgentSession(
     ctx,
     parentSessionID,
     `Design Generation - ${model}`,
     ctx.directory,
+    abortSignal,
   );
+  const timeout = startSessionTimeout(config, "design", model);
+  setSessionTemperature(sessionID, config.design_agent_temperature);
+  usage.track(sessionID, "design", model);
+
+  // Let the isolation hook keep this session away from other designs
+  trackSession(sessionID, {
+    role: "design",
+    labDir,
+    designId: sanitizeForFilename(getModelShortName(model)),
+  });
 
   const prompt = `Generate a comprehensive design proposal for the following requirements.
 
@@ -320,17 +459,25 @@ Remember: Your entire response must be valid JSON with no other text.`;
   const fullPrompt = `${agentConfig.prompt}\n\n${prompt}`;
 
   logger.info({ model, sessionID }, "Sending design prompt to agent");
-  await sendPrompt(ctx, sessionID, fullPrompt, agentConfig.tools);
+  await sendPrompt(ctx, sessionID, fullPrompt, agentConfig.tools, {
+    retry: config.retries,
+    timeout,
+    abortSignal,
+    model: agentConfig.model,
+  });
 
-  logger.info({ model, sessionID }, "Polling for completion");
-  await pollForCompletion(ctx, sessionID);
+  logger.info({ model, sessionID }, "Waiting for completion");
+  await waitForCompletion(ctx, sessionID, { timeout, abortSignal });
 
-  logger.info({ model, sessionID }, "Extracting session output");
-  const output = await extractSessionOutput(ctx, sessionID);
+  logger.info({ model, sessionID }, "Extracting and validating design JSON");
+  const design = await requestValidJSON(ctx, sessionID, DesignArtifactSchema, {
+    retry: config.retries,
+    tools: agentConfig.tools,
+    timeout,
+    abortSignal,
+    model: agentConfig.model,
+  });
+  const answeringModel = await getAnsweringModel(ctx, sessionID, model);
 
-  logger.info(
-    { model, outputLength: output.length },
-    "Extracting JSON from output",
-  );
-  return extractJSON(output);
+  return { design, answeringModel };
 }
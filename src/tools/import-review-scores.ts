@@ -0,0 +1,201 @@
+import {
+  tool,
+  type PluginInput,
+  type ToolDefinition,
+} from "@opencode-ai/plugin";
+import * as fs from "fs";
+import * as path from "path";
+import { type DesignLabConfig, createScoreSchema } from "../config";
+import { getDesignerModelFileStem } from "../agents";
+import {
+  findLatestRound,
+  getRoundDir,
+  resolveLabPath,
+} from "../utils/lab-helpers";
+import { loadAnonymizationMap } from "../utils/anonymization-helpers";
+import {
+  parseReviewScoresTable,
+  type ReviewParseError,
+} from "../utils/review-parser";
+import {
+  getModelShortName,
+  sanitizeForFilename,
+} from "../utils/session-helpers";
+import { logger } from "../utils/logger";
+
+interface ImportReviewScoresArgs {
+  lab_path?: string;
+  round?: number;
+}
+
+/**
+ * Create the import_review_scores tool
+ *
+ * Used by the agent path: review subagents only write reviews/review-*.md,
+ * so this parses the Scores Table at the bottom of each review into the
+ * scores/*.json files that aggregation and synthesis read.
+ */
+export function createImportReviewScoresTool(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+): ToolDefinition {
+  const reviewModels = config.review_models ?? config.design_models;
+  const scoreSchema = createScoreSchema(config.scoring);
+
+  return tool({
+    description: `Parse the Scores Table of each markdown review into structured score files.
+
+This tool:
+1. Reads every reviews/review-*.md in the lab (reviews/round-N/ for refinement rounds)
+2. Parses the Scores Table at the bottom of each review and validates every row against the scoring rubric
+3. Writes scores/<design>-reviewed-by-<reviewer>.json for each valid row
+4. Reports rows that could not be parsed, so the reviewer can be asked to fix them
+
+Use this after all review subagents have written their reviews.`,
+    args: {
+      lab_path: tool.schema
+        .string()
+        .describe(
+          `Design lab to use: "latest", "previous" (the lab before the latest), a run ID, a topic or part of one that matches a single lab, or the path of a lab under ${config.base_output_dir}. If not provided, uses the most recent lab.`,
+        )
+        .optional(),
+      round: tool.schema
+        .number()
+        .int()
+        .min(1)
+        .describe(
+          `Refinement round to import (1 = the original designs). If not provided, uses the latest round.`,
+        )
+        .optional(),
+    },
+    async execute(args: ImportReviewScoresArgs) {
+      const { labDir, error: selectorError } = resolveLabPath(
+        ctx.directory,
+        config.base_output_dir,
+        args.lab_path,
+      );
+
+      if (selectorError) {
+        return `Error: ${selectorError}. Pass one of these run IDs as lab_path.`;
+      }
+      if (!labDir) {
+        return args.lab_path
+          ? `Error: No design lab matches "${args.lab_path}".`
+          : "Error: No design lab found. Generate designs first.";
+      }
+
+      const round = args.round ?? findLatestRound(labDir);
+      const reviewsDir = getRoundDir(labDir, "reviews", round);
+      if (!fs.existsSync(reviewsDir)) {
+        return `Error: No reviews directory found at ${reviewsDir}.`;
+      }
+
+      const reviewFiles = fs
+        .readdirSync(reviewsDir)
+        .filter((f) => f.startsWith("review-") && f.endsWith(".md"));
+      if (reviewFiles.length === 0) {
+        return "Error: No markdown reviews found in the lab directory.";
+      }
+
+      const anonymizationMap = loadAnonymizationMap(labDir);
+      const scoresDir = getRoundDir(labDir, "scores", round);
+      fs.mkdirSync(scoresDir, { recursive: true });
+
+      const written: string[] = [];
+      const failures: { file: string; error: ReviewParseError }[] = [];
+
+      for (const file of reviewFiles) {
+        const reviewerStem = file.slice("review-".length, -".md".length);
+        const reviewerModel =
+          reviewModels.find(
+            (model) => getDesignerModelFileStem(model) === reviewerStem,
+          ) ?? reviewerStem;
+
+        const { rows, errors } = parseReviewScoresTable(
+          fs.readFileSync(path.join(reviewsDir, file), "utf-8"),
+          config.scoring,
+        );
+        failures.push(...errors.map((error) => ({ file, error })));
+
+        for (const row of rows) {
+          if (anonymizationMap && !anonymizationMap[row.design_id]) {
+            failures.push({
+              file,
+              error: {
+                line: row.line,
+                row: row.row,
+                reason: `Unknown design ID "${row.design_id}"`,
+              },
+            });
+            continue;
+          }
+
+          const result = scoreSchema.safeParse({
+            design_id: row.design_id,
+            reviewer_model: reviewerModel,
+            scores: row.scores,
+            justification: `Parsed from the Scores Table in ${file}`,
+            strengths: row.strengths,
+            weaknesses: row.weaknesses,
+            missing_considerations: row.missing_considerations,
+          });
+          if (!result.success) {
+            failures.push({
+              file,
+              error: {
+                line: row.line,
+                row: row.row,
+                reason: result.error.issues
+                  .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+                  .join("; "),
+              },
+            });
+            continue;
+          }
+
+          const scoreFile = path.join(
+            scoresDir,
+            `${sanitizeForFilename(getModelShortName(row.design_id))}-reviewed-by-${sanitizeForFilename(getModelShortName(reviewerModel))}.json`,
+          );
+          fs.writeFileSync(scoreFile, JSON.stringify(result.data, null, 2));
+          written.push(scoreFile);
+        }
+      }
+
+      logger.info(
+        {
+          labDir,
+          round,
+          reviewCount: reviewFiles.length,
+          scoreCount: written.length,
+          failureCount: failures.length,
+        },
+        "Review scores imported",
+      );
+
+      return `Review scores imported.
+
+**Lab Directory**: ${labDir}
+**Round**: ${round}
+**Reviews parsed**: ${reviewFiles.length}
+**Score files written**: ${written.length}
+
+${written.map((f) => `- ${f}`).join("\n")}${
+        failures.length > 0
+          ? `
+
+**Rows that could not be parsed** (${failures.length}):
+${failures.map(({ file, error }) => `- ${formatFailure(file, error)}`).join("\n")}
+
+Ask the reviewer to fix its Scores Table, then run this tool again.`
+          : ""
+      }`;
+    },
+  });
+}
+
+function formatFailure(file: string, error: ReviewParseError): string {
+  const location = error.line ? `${file}:${error.line}` : file;
+  const row = error.row ? ` \`${error.row}\`` : "";
+  return `${location}${row}: ${error.reason}`;
+}
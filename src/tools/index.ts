@@ -1,3 +1,6 @@
 export { createGenerateDesignsTool } from "./generate-designs";
 export { createReviewDesignsTool } from "./review-designs";
 export { createAggregateScoresTool } from "./aggregate-scores";
+export { createPrepareBlindReviewTool } from "./prepare-blind-review";
+export { createRefineDesignsTool } from "./refine-designs";
+export { createImportReviewScoresTool } from "./import-review-scores";
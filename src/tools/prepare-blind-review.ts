@@ -0,0 +1,141 @@
+import {
+  tool,
+  type PluginInput,
+  type ToolDefinition,
+} from "@opencode-ai/plugin";
+import * as fs from "fs";
+import * as path from "path";
+import { type DesignLabConfig } from "../config";
+import {
+  findLatestRound,
+  getRoundDir,
+  resolveLabPath,
+} from "../utils/lab-helpers";
+import {
+  ANONYMIZATION_FILE,
+  BLIND_DESIGNS_DIR,
+  ensureAnonymizationMap,
+} from "../utils/anonymization-helpers";
+import { logger } from "../utils/logger";
+
+interface PrepareBlindReviewArgs {
+  lab_path?: string;
+  round?: number;
+}
+
+/**
+ * Create the prepare_blind_review tool
+ *
+ * Used by the agent path: copies each markdown design to blind/design-X.md
+ * under a shuffled anonymous label so review subagents never see model names.
+ */
+export function createPrepareBlindReviewTool(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+): ToolDefinition {
+  return tool({
+    description: `Prepare anonymized copies of markdown designs for blind review.
+
+This tool:
+1. Assigns each design in designs/ a shuffled anonymous ID (design-A, design-B, ...)
+2. Saves the mapping to ${ANONYMIZATION_FILE} in the lab directory
+3. Writes anonymized copies to ${BLIND_DESIGNS_DIR}/design-X.md
+
+Refinement rounds use designs/round-N/ and ${BLIND_DESIGNS_DIR}/round-N/; a design keeps its anonymous ID across rounds.
+
+Give reviewers ONLY the returned ${BLIND_DESIGNS_DIR}/ paths, never the designs/ paths.`,
+    args: {
+      lab_path: tool.schema
+        .string()
+        .describe(
+          `Design lab to use: "latest", "previous" (the lab before the latest), a run ID, a topic or part of one that matches a single lab, or the path of a lab under ${config.base_output_dir}. If not provided, uses the most recent lab.`,
+        )
+        .optional(),
+      round: tool.schema
+        .number()
+        .int()
+        .min(1)
+        .describe(
+          `Refinement round to prepare (1 = the original designs). If not provided, uses the latest round.`,
+        )
+        .optional(),
+    },
+    async execute(args: PrepareBlindReviewArgs) {
+      const { labDir, error: selectorError } = resolveLabPath(
+        ctx.directory,
+        config.base_output_dir,
+        args.lab_path,
+      );
+
+      if (selectorError) {
+        return `Error: ${selectorError}. Pass one of these run IDs as lab_path.`;
+      }
+      if (!labDir) {
+        return args.lab_path
+          ? `Error: No design lab matches "${args.lab_path}".`
+          : "Error: No design lab found. Generate designs first.";
+      }
+
+      const round = args.round ?? findLatestRound(labDir);
+      const designsDir = getRoundDir(labDir, "designs", round);
+      if (!fs.existsSync(designsDir)) {
+        return `Error: No designs directory found at ${designsDir}.`;
+      }
+
+      const designFiles = fs
+        .readdirSync(designsDir)
+        .filter((f) => f.endsWith(".md"));
+      if (designFiles.length === 0) {
+        return "Error: No markdown designs found in the lab directory.";
+      }
+
+      const anonymizationMap = ensureAnonymizationMap(
+        labDir,
+        designFiles.map((file) => file.replace(".md", "")),
+      );
+
+      const blindDir = getRoundDir(labDir, BLIND_DESIGNS_DIR, round);
+      fs.mkdirSync(blindDir, { recursive: true });
+
+      const blindFiles: string[] = [];
+      for (const [anonymousId, designId] of Object.entries(anonymizationMap)) {
+        const sourceFile = path.join(designsDir, `${designId}.md`);
+        if (!fs.existsSync(sourceFile)) {
+          continue;
+        }
+        const blindFile = path.join(blindDir, `${anonymousId}.md`);
+        fs.writeFileSync(
+          blindFile,
+          stripAuthorship(fs.readFileSync(sourceFile, "utf-8")),
+        );
+        blindFiles.push(blindFile);
+      }
+
+      logger.info(
+        { labDir, round, designCount: blindFiles.length },
+        "Blind review designs prepared",
+      );
+
+      return `Blind review prepared.
+
+**Lab Directory**: ${labDir}
+**Round**: ${round}
+**Reviews directory**: ${getRoundDir(labDir, "reviews", round)}
+
+Give reviewers these design files and refer to designs only by these IDs:
+${blindFiles.map((f) => `- ${path.basename(f, ".md")}: ${f}`).join("\n")}
+
+The mapping to models is stored in ${path.join(labDir, ANONYMIZATION_FILE)}. Do not reveal it to reviewers.`;
+    },
+  });
+}
+
+/**
+ * Remove lines that name the authoring model, e.g. "**Model**: openai/gpt-5"
+ */
+function stripAuthorship(markdown: string): string {
+  return markdown
+    .split("\n")
+    .filter((line) => !/^\s*\*\*Model\*\*:/i.test(line))
+    .join("\n");
+}
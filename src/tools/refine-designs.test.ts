@@ -0,0 +1,82 @@
+import * as fs from "fs";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DesignLabConfigSchema } from "../config";
+import { readLabManifest } from "../utils/lab-manifest";
+import { createSessionScheduler } from "../utils/session-helpers";
+import { createRefineDesignsTool } from "./refine-designs";
+import { createReviewDesignsTool } from "./review-designs";
+import {
+  MODELS,
+  createFakeContext,
+  createTestLab,
+  createToolContext,
+  design,
+} from "./test-helpers";
+
+describe("refine_designs after a pairwise review", () => {
+  let projectDir: string;
+  let labDir: string;
+
+  beforeEach(() => {
+    ({ projectDir, labDir } = createTestLab());
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("revises each design using its comparisons", async () => {
+    const config = DesignLabConfigSchema.parse({
+      design_models: MODELS,
+      review_mode: "pairwise",
+      transcripts: { enabled: false },
+    });
+    // The first design shown always wins, so each design wins once and
+    // loses once
+    const { ctx, prompts } = createFakeContext(projectDir, (prompt) => {
+      const first = /### First design: (\S+)/.exec(prompt)?.[1];
+      return first
+        ? JSON.stringify({
+            winner: first,
+            rationale: `${first} was shown first`,
+          })
+        : JSON.stringify(design);
+    });
+    const scheduler = createSessionScheduler(config.max_concurrency);
+
+    const review = await createReviewDesignsTool(
+      ctx,
+      config,
+      scheduler,
+    ).execute({}, createToolContext());
+    expect(review).toContain("Review complete.");
+    expect(fs.readdirSync(path.join(labDir, "comparisons"))).toHaveLength(2);
+
+    const refine = await createRefineDesignsTool(
+      ctx,
+      config,
+      scheduler,
+    ).execute({}, createToolContext());
+    expect(refine).toContain("2 successful, 0 failed");
+    expect(readLabManifest(labDir)?.phases.at(-1)).toMatchObject({
+      phase: "refine",
+      round: 2,
+      status: "complete",
+    });
+
+    const refinePrompts = prompts.filter((p) =>
+      p.includes("## Your Current Design"),
+    );
+    expect(refinePrompts).toHaveLength(2);
+    for (const prompt of refinePrompts) {
+      expect(prompt).toContain("Reviewers compared the designs two at a time");
+      expect(prompt).toMatch(
+        /- Preferred over design-\w+: design-\w+ was shown first/,
+      );
+      expect(prompt).toMatch(
+        /- Lost to design-\w+: design-\w+ was shown first/,
+      );
+    }
+  });
+});
@@ -0,0 +1,571 @@
+import {
+  tool,
+  type PluginInput,
+  type ToolDefinition,
+} from "@opencode-ai/plugin";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  type DesignLabConfig,
+  DesignArtifactSchema,
+  type DesignArtifact,
+  PairwiseComparisonSchema,
+  type PairwiseComparison,
+} from "../config";
+import { createDesignAgent, isDesignByModel } from "../agents";
+import {
+  createAgentSession,
+  createQueueProgress,
+  getAnsweringModel,
+  sendPrompt,
+  waitForCompletion,
+  requestValidJSON,
+  startSessionTimeout,
+  type SessionScheduler,
+} from "../utils/session-helpers";
+import { formatDesignAsMarkdown } from "../utils/design-markdown";
+import { logger } from "../utils/logger";
+import { saveSessionTranscripts } from "../utils/transcript-helpers";
+import { setSessionTemperature, trackSession } from "../hooks";
+import {
+  findLatestRound,
+  getRoundDir,
+  loadRequirements,
+  resolveLabPath,
+} from "../utils/lab-helpers";
+import {
+  findPhaseRun,
+  findUnfinishedPhaseRun,
+  finishPhaseRun,
+  readLabManifest,
+  startPhaseRun,
+  updateModelRun,
+} from "../utils/lab-manifest";
+import {
+  checkLabBudget,
+  createUsageTracker,
+  type UsageTracker,
+} from "../utils/usage-helpers";
+import { TIE } from "../utils/pairwise-helpers";
+import { readScoreFiles } from "../utils/scoring-helpers";
+import {
+  deanonymizeDesignId,
+  loadAnonymizationMap,
+  type AnonymizationMap,
+} from "../utils/anonymization-helpers";
+
+interface RefineDesignsArgs {
+  lab_path?: string;
+  round?: number;
+}
+
+/**
+ * Create the refine_designs tool
+ */
+export function createRefineDesignsTool(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+  scheduler: SessionScheduler,
+): ToolDefinition {
+  return tool({
+    description: `Revise every design using the reviewers' feedback on it (iterative refinement).
+
+This tool:
+1. Reads each design from the previous round (designs/ or designs/round-N/)
+2. Collects the anonymized reviewer feedback on it: strengths, weaknesses and missing considerations from the score files (or the review reports if there are no score files)
+3. Sends each designer model its own design plus the feedback and asks for a revised design
+4. Saves the revisions to designs/round-N/ as JSON and Markdown
+
+If the refinement of that round did not finish (cancelled, failed models or interrupted), this resumes it and only revises the failed or missing designs.
+
+Review the revised designs like the originals, passing the round number to prepare_blind_review / review_designs / aggregate_scores.
+
+Use this after the previous round has been reviewed.`,
+    args: {
+      lab_path: tool.schema
+        .string()
+        .describe(
+          `Design lab to use: "latest", "previous" (the lab before the latest), a run ID, a topic or part of one that matches a single lab, or the path of a lab under ${config.base_output_dir}. If not provided, uses the most recent lab.`,
+        )
+        .optional(),
+      round: tool.schema
+        .number()
+        .int()
+        .min(2)
+        .describe(
+          `Round to produce (2 = first revision). If not provided, uses the round after the latest one.`,
+        )
+        .optional(),
+    },
+    async execute(args: RefineDesignsArgs, toolContext) {
+      const sessionID = toolContext.sessionID;
+
+      const { labDir, error: selectorError } = resolveLabPath(
+        ctx.directory,
+        config.base_output_dir,
+        args.lab_path,
+      );
+
+      if (selectorError) {
+        return `Error: ${selectorError}. Pass one of these run IDs as lab_path.`;
+      }
+      if (!labDir) {
+        return args.lab_path
+          ? `Error: No design lab matches "${args.lab_path}".`
+          : "Error: No design lab found. Generate designs first.";
+      }
+
+      // An unfinished refinement is resumed rather than started over
+      const manifest = readLabManifest(labDir);
+      const round =
+        args.round ??
+        findUnfinishedPhaseRun(manifest, "refine")?.round ??
+        findLatestRound(labDir) + 1;
+      const previousRun = findPhaseRun(manifest, "refine", round);
+      const resuming =
+        previousRun !== undefined && previousRun.status !== "complete";
+      const previousRound = round - 1;
+      const previousDesignsDir = getRoundDir(labDir, "designs", previousRound);
+      const outputDir = getRoundDir(labDir, "designs", round);
+
+      if (!fs.existsSync(previousDesignsDir)) {
+        return `Error: No designs found for round ${previousRound} at ${previousDesignsDir}.`;
+      }
+      if (fs.existsSync(outputDir) && !resuming) {
+        return `Error: Round ${round} already exists at ${outputDir}. Delete it to refine again.`;
+      }
+
+      // A design may exist as JSON (tool path), Markdown (agent path) or both
+      const designIds = [
+        ...new Set(
+          fs
+            .readdirSync(previousDesignsDir)
+            .filter((f) => f.endsWith(".json") || f.endsWith(".md"))
+            .map((f) => f.replace(/\.(json|md)$/, "")),
+        ),
+      ];
+      if (designIds.length === 0) {
+        return `Error: No designs found for round ${previousRound}.`;
+      }
+
+      const anonymizationMap = loadAnonymizationMap(labDir);
+      if (!anonymizationMap) {
+        return `Error: Round ${previousRound} has not been reviewed yet (no anonymization map). Review it first.`;
+      }
+
+      const budgetReached = checkLabBudget(config, labDir);
+      if (budgetReached) {
+        return `Error: Budget reached for this lab (${budgetReached}). Raise the budget in the config to continue.`;
+      }
+
+      const requirements = loadRequirements(labDir);
+      fs.mkdirSync(outputDir, { recursive: true });
+
+      // When resuming, keep the revisions finished before; designs that no
+      // configured model wrote are reported as failed every time
+      const designModels = designIds.map((designId) => ({
+        designId,
+        model: config.design_models.find((m) => isDesignByModel(designId, m)),
+      }));
+      const { models } = startPhaseRun(
+        labDir,
+        "refine",
+        round,
+        designModels.flatMap(({ model }) => (model ? [model] : [])),
+      );
+      if (resuming) {
+        logger.info(
+          { labDir, round, remaining: models },
+          "Resuming unfinished design refinement",
+        );
+      }
+
+      // Earlier usage of the lab counts towards the budget
+      const usage = createUsageTracker(ctx, config, toolContext.abort);
+      try {
+        usage.setLab(labDir);
+
+        // Refine in parallel, within the concurrency limits
+        const onQueuePosition = createQueueProgress(
+          toolContext,
+          "Refining designs",
+          models,
+        );
+        const remaining = designModels.filter(
+          ({ model }) => !model || models.includes(model),
+        );
+        const refinePromises = remaining.map(async ({ designId, model }) => {
+          if (!model) {
+            return {
+              designId,
+              success: false,
+              error: "No configured design model wrote this design",
+            };
+          }
+
+          try {
+            const feedback = collectFeedback(
+              labDir,
+              config,
+              previousRound,
+              designId,
+              anonymizationMap,
+            );
+            if (!feedback) {
+              const error = `No reviewer feedback found for round ${previousRound}`;
+              updateModelRun(labDir, "refine", round, model, {
+                status: "failed",
+                error,
+              });
+              return {
+                designId,
+                success: false,
+                error,
+              };
+            }
+
+            const { design, answeringModel } = await scheduler.run(
+              model,
+              () => {
+                logger.info(
+                  { model, designId, round },
+                  "Starting design refinement",
+                );
+                updateModelRun(labDir, "refine", round, model, {
+                  status: "running",
+                });
+                return refineDesign(
+                  ctx,
+                  config,
+                  model,
+                  readDesign(previousDesignsDir, designId),
+                  feedback,
+                  requirements,
+                  labDir,
+                  designId,
+                  round,
+                  sessionID,
+                  usage,
+                );
+              },
+              onQueuePosition(model),
+            );
+
+            const designFile = path.join(outputDir, `${designId}.json`);
+            fs.writeFileSync(
+              designFile,
+              JSON.stringify({ ...design, model: answeringModel }, null, 2),
+            );
+            fs.writeFileSync(
+              path.join(outputDir, `${designId}.md`),
+              formatDesignAsMarkdown(design, answeringModel),
+            );
+            logger.info({ model, designId, round }, "Revised design saved");
+
+            updateModelRun(labDir, "refine", round, model, {
+              status: "complete",
+              output: path.relative(labDir, designFile),
+            });
+            return { designId, success: true };
+          } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            logger.error(
+              { model, designId, error: errorMsg },
+              "Design refinement failed",
+            );
+            updateModelRun(labDir, "refine", round, model, {
+              status: usage.signal.aborted ? "cancelled" : "failed",
+              error: errorMsg,
+            });
+            return { designId, success: false, error: errorMsg };
+          }
+        });
+
+        const results = await Promise.all(refinePromises);
+        const successCount = results.filter((r) => r.success).length;
+        const failCount = results.length - successCount;
+
+        await usage.finish(labDir);
+        await saveSessionTranscripts(ctx, config, labDir, usage.sessions());
+        const stoppedByBudget = usage.budgetExceeded();
+        const phaseStatus = finishPhaseRun(
+          labDir,
+          "refine",
+          round,
+          stoppedByBudget
+            ? `budget reached (${stoppedByBudget})`
+            : toolContext.abort.aborted
+              ? "cancelled"
+              : undefined,
+        );
+        if (stoppedByBudget) {
+          return `Design refinement stopped: budget reached (${stoppedByBudget}).
+
+**Lab Directory**: ${labDir}
+**Round**: ${round}
+
+**Results**: ${successCount} saved before the budget was reached
+
+Raise the budget and run refine_designs again to revise the remaining designs.`;
+        }
+        if (toolContext.abort.aborted) {
+          return `Design refinement cancelled.
+
+**Lab Directory**: ${labDir}
+**Round**: ${round}
+
+**Results**: ${successCount} saved before the cancel
+
+Run refine_designs again to revise the remaining designs.`;
+        }
+
+        return `Design refinement complete.
+
+**Lab Directory**: ${labDir}
+**Round**: ${round}
+**Revised designs saved to**: ${outputDir}
+
+**Results**: ${successCount} successful, ${failCount} failed
+
+${results
+  .map((r) =>
+    r.success ? `✅ ${r.designId}: Revised` : `❌ ${r.designId}: ${r.error}`,
+  )
+  .join("\n")}
+
+${
+  phaseStatus === "incomplete"
+    ? `\nRun refine_designs again to retry the failed designs.\n`
+    : ""
+}${
+          successCount >= 2
+            ? `\nNext step: Review round ${round} (prepare_blind_review or review_designs with round ${round}), then run aggregate_scores with round ${round} to see score changes.`
+            : `\nWarning: At least 2 revised designs are needed for meaningful comparison.`
+        }`;
+      } finally {
+        // finish() has already stopped the tracker unless something threw
+        usage.dispose();
+      }
+    },
+  });
+}
+
+/**
+ * Read a design as prompt text, preferring the structured JSON artifact
+ */
+function readDesign(designsDir: string, designId: string): string {
+  const jsonPath = path.join(designsDir, `${designId}.json`);
+  if (fs.existsSync(jsonPath)) {
+    const design = JSON.parse(
+      fs.readFileSync(jsonPath, "utf-8"),
+    ) as DesignArtifact;
+    return `\`\`\`json\n${JSON.stringify(design, null, 2)}\n\`\`\``;
+  }
+  return fs.readFileSync(path.join(designsDir, `${designId}.md`), "utf-8");
+}
+
+/**
+ * Collect reviewer feedback on one design as prompt text
+ *
+ * Reviewers are numbered rather than named. Score files are preferred, then
+ * pairwise comparisons (pairwise review mode); without either (agent path),
+ * the full review reports are used. With comparisons or reports, the
+ * designer is told which anonymous ID its design had.
+ */
+function collectFeedback(
+  labDir: string,
+  config: DesignLabConfig,
+  round: number,
+  designId: string,
+  anonymizationMap: AnonymizationMap,
+): string | null {
+  const anonymousId = Object.keys(anonymizationMap).find(
+    (id) => anonymizationMap[id] === designId,
+  );
+
+  const scores = readScoreFiles(
+    getRoundDir(labDir, "scores", round),
+    config.scoring,
+  ).filter(
+    (s) => deanonymizeDesignId(s.design_id, anonymizationMap) === designId,
+  );
+
+  if (scores.length > 0) {
+    return scores
+      .map(
+        (s, i) => `### Reviewer ${i + 1}
+
+**Strengths**:
+${formatList(s.strengths)}
+
+**Weaknesses**:
+${formatList(s.weaknesses)}
+
+**Missing considerations**:
+${formatList(s.missing_considerations)}`,
+      )
+      .join("\n\n");
+  }
+
+  const comparisons = anonymousId
+    ? readComparisons(getRoundDir(labDir, "comparisons", round))
+        .map((reviewer) =>
+          reviewer.filter(
+            (c) => c.first === anonymousId || c.second === anonymousId,
+          ),
+        )
+        .filter((reviewer) => reviewer.length > 0)
+    : [];
+  if (anonymousId && comparisons.length > 0) {
+    return `Reviewers compared the designs two at a time; yours is **${anonymousId}**.
+
+${comparisons
+  .map(
+    (reviewer, i) => `### Reviewer ${i + 1}
+
+${reviewer.map((c) => formatJudgment(c, anonymousId)).join("\n")}`,
+  )
+  .join("\n\n")}`;
+  }
+
+  const reviewsDir = getRoundDir(labDir, "reviews", round);
+  const reviewFiles = fs.existsSync(reviewsDir)
+    ? fs.readdirSync(reviewsDir).filter((f) => f.endsWith(".md"))
+    : [];
+  if (!anonymousId || reviewFiles.length === 0) {
+    return null;
+  }
+
+  return `Reviewers compared several designs; yours is **${anonymousId}**. Focus on what they say about ${anonymousId}.
+
+${reviewFiles
+  .map(
+    (f, i) =>
+      `### Reviewer ${i + 1}\n\n${fs.readFileSync(path.join(reviewsDir, f), "utf-8")}`,
+  )
+  .join("\n\n---\n\n")}`;
+}
+
+/**
+ * Read each reviewer's pairwise comparisons, skipping invalid files
+ */
+function readComparisons(comparisonsDir: string): PairwiseComparison[][] {
+  if (!fs.existsSync(comparisonsDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(comparisonsDir)
+    .filter((f) => f.endsWith(".json"))
+    .flatMap((f) => {
+      const filePath = path.join(comparisonsDir, f);
+      try {
+        return [
+          PairwiseComparisonSchema.array().parse(
+            JSON.parse(fs.readFileSync(filePath, "utf-8")),
+          ),
+        ];
+      } catch (err) {
+        logger.warn(
+          { filePath, error: err instanceof Error ? err.message : String(err) },
+          "Skipping invalid comparisons file",
+        );
+        return [];
+      }
+    });
+}
+
+/**
+ * Describe one comparison from the point of view of a design
+ */
+function formatJudgment(c: PairwiseComparison, anonymousId: string): string {
+  const other = c.first === anonymousId ? c.second : c.first;
+  const outcome =
+    c.winner === TIE
+      ? `Tied with ${other}`
+      : c.winner === anonymousId
+        ? `Preferred over ${other}`
+        : `Lost to ${other}`;
+  return `- ${outcome}: ${c.rationale}`;
+}
+
+function formatList(items: string[] | undefined): string {
+  return items && items.length > 0
+    ? items.map((item) => `- ${item}`).join("\n")
+    : "- (none)";
+}
+
+/**
+ * Ask a designer model to revise its design using the reviewers' feedback
+ *
+ * @returns The revised design and the model that actually answered
+ */
+async function refineDesign(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+  model: string,
+  design: string,
+  feedback: string,
+  requirements: string | null,
+  labDir: string,
+  designId: string,
+  round: number,
+  parentSessionID: string | undefined,
+  usage: UsageTracker,
+): Promise<{ design: DesignArtifact; answeringModel: string }> {
+  const agentConfig = createDesignAgent(model, config.design_agent_temperature);
+  const abortSignal = usage.signal;
+
+  const sessionID = await createAgentSession(
+    ctx,
+    parentSessionID,
+    `Design Refinement - ${model}`,
+    ctx.directory,
+    abortSignal,
+  );
+  const timeout = startSessionTimeout(config, "design", model);
+  setSessionTemperature(sessionID, config.design_agent_temperature);
+  usage.track(sessionID, "refine", model, round);
+
+  // Let the isolation hook keep this session away from other designs
+  trackSession(sessionID, { role: "design", labDir, designId });
+
+  const prompt = `Revise your design proposal using the feedback from independent reviewers.
+${requirements ? `\n## Requirements\n\n${requirements}\n` : ""}
+## Your Current Design
+
+${design}
+
+## Reviewer Feedback
+
+${feedback}
+
+## Instructions
+
+1. Keep what reviewers identified as strengths
+2. Address each weakness and missing consideration, or explain in tradeoffs/open_questions why you chose not to
+3. Do not copy other designs; improve your own approach
+4. Output the complete revised design as valid JSON following the required schema
+
+Remember: Your entire response must be valid JSON with no other text.`;
+
+  const fullPrompt = `${agentConfig.prompt}\n\n${prompt}`;
+
+  await sendPrompt(ctx, sessionID, fullPrompt, agentConfig.tools, {
+    retry: config.retries,
+    timeout,
+    abortSignal,
+    model: agentConfig.model,
+  });
+  await waitForCompletion(ctx, sessionID, { timeout, abortSignal });
+
+  const revised = await requestValidJSON(ctx, sessionID, DesignArtifactSchema, {
+    retry: config.retries,
+    tools: agentConfig.tools,
+    timeout,
+    abortSignal,
+    model: agentConfig.model,
+  });
+  const answeringModel = await getAnsweringModel(ctx, sessionID, model);
+
+  return { design: revised, answeringModel };
+}
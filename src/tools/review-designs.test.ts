@@ -0,0 +1,57 @@
+import * as fs from "fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DesignLabConfigSchema } from "../config";
+import { readLabManifest } from "../utils/lab-manifest";
+import { createSessionScheduler } from "../utils/session-helpers";
+import { createReviewDesignsTool } from "./review-designs";
+import {
+  MODELS,
+  createFakeContext,
+  createTestLab,
+  createToolContext,
+} from "./test-helpers";
+
+describe("review_designs in pairwise mode", () => {
+  let projectDir: string;
+  let labDir: string;
+
+  beforeEach(() => {
+    ({ projectDir, labDir } = createTestLab());
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("marks a reviewer with dropped judgments as failed", async () => {
+    const config = DesignLabConfigSchema.parse({
+      design_models: MODELS,
+      review_models: [MODELS[0]],
+      review_mode: "pairwise",
+      transcripts: { enabled: false },
+      retries: { repair_attempts: 0 },
+    });
+    // Only the forward pair gets a valid judgment
+    const { ctx } = createFakeContext(projectDir, (prompt) => {
+      const id = /## Comparison (\S+)/.exec(prompt)?.[1];
+      const first = /### First design: (\S+)/.exec(prompt)?.[1];
+      return id === "pair-1"
+        ? JSON.stringify({ winner: first, rationale: "Simpler" })
+        : "I can't decide.";
+    });
+
+    const result = await createReviewDesignsTool(
+      ctx,
+      config,
+      createSessionScheduler(config.max_concurrency),
+    ).execute({}, createToolContext());
+
+    expect(result).toContain("Missing 1 of 2 pairwise judgments (pair-2)");
+    const run = readLabManifest(labDir)?.phases.at(-1);
+    expect(run?.status).toBe("incomplete");
+    expect(run?.models[MODELS[0]]).toMatchObject({
+      status: "failed",
+      output: "comparisons/gpt-5.json",
+    });
+  });
+});
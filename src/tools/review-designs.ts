@@ -5,22 +5,65 @@ import {
 } from "@opencode-ai/plugin";
 import * as fs from "fs";
 import * as path from "path";
-import { type DesignLabConfig, ScoreSchema, type Score } from "../config";
-import { createReviewAgent } from "../agents";
+import { z } from "zod";
+import {
+  type DesignLabConfig,
+  type DesignArtifact,
+  type ScoringConfig,
+  createScoreSchema,
+  type Score,
+  type PairwiseComparison,
+} from "../config";
+import { createPairwiseReviewAgent, createReviewAgent } from "../agents";
 import {
   createAgentSession,
+  createQueueProgress,
   sendPrompt,
-  pollForCompletion,
+  waitForCompletion,
   extractSessionOutput,
-  extractJSON,
+  getAnsweringModel,
+  requestValidJSON,
   sanitizeForFilename,
+  startSessionTimeout,
   getModelShortName,
+  type SessionScheduler,
 } from "../utils/session-helpers";
+import { loadDesignArtifact } from "../utils/design-markdown";
 import { logger } from "../utils/logger";
-import { findMostRecentLab } from "../utils/lab-helpers";
+import { saveSessionTranscripts } from "../utils/transcript-helpers";
+import { setSessionTemperature, trackSession } from "../hooks";
+import {
+  findLatestRound,
+  getRoundDir,
+  loadRequirements,
+  resolveLabPath,
+} from "../utils/lab-helpers";
+import {
+  finishPhaseRun,
+  startPhaseRun,
+  updateModelRun,
+} from "../utils/lab-manifest";
+import {
+  checkLabBudget,
+  createUsageTracker,
+  type UsageTracker,
+} from "../utils/usage-helpers";
+import { ensureAnonymizationMap } from "../utils/anonymization-helpers";
+import {
+  formatScale,
+  getScoreDimensionNames,
+  isOverallInconsistent,
+  withWeightedOverall,
+} from "../utils/scoring-helpers";
+import {
+  buildComparisonPairs,
+  type ComparisonPair,
+  TIE,
+} from "../utils/pairwise-helpers";
 
 interface ReviewDesignsArgs {
   lab_path?: string;
+  round?: number;
 }
 
 /**
@@ -29,22 +72,38 @@ interface ReviewDesignsArgs {
 export function createReviewDesignsTool(
   ctx: PluginInput,
   config: DesignLabConfig,
+  scheduler: SessionScheduler,
 ): ToolDefinition {
   const reviewModels = config.review_models ?? config.design_models;
-
   return tool({
     description: `Review and score design proposals using ${reviewModels.length} reviewer models.
 
-Each reviewer analyzes all designs and provides:
+Designs are relabelled as design-A, design-B, ... (shuffled per lab) so reviewers do not know which model wrote which design.
+
+${
+  config.review_mode === "pairwise"
+    ? `Each reviewer compares every pair of designs (in both orders, to cancel position bias) and picks a winner with a rationale.`
+    : `Each reviewer analyzes all designs and provides:
 1. A markdown review comparing the designs
-2. Numeric scores (0-10) across dimensions: clarity, feasibility, scalability, maintainability, completeness, overall
+2. Numeric scores (${formatScale(config.scoring)}) across dimensions: ${getScoreDimensionNames(config.scoring).join(", ")}`
+}
+
+If the review of that round did not finish (cancelled, failed reviewers or interrupted), this resumes it and only runs the failed or missing reviewers.
 
-Use this after generate_designs to evaluate and compare the generated designs.`,
+Use this after generate_designs (or refine_designs, for a later round) to evaluate and compare the generated designs.`,
     args: {
       lab_path: tool.schema
         .string()
         .describe(
-          `Path to the design lab directory (e.g., .design-lab/2024-01-15-api-gateway). If not provided, uses the most recent lab.`,
+          `Design lab to use: "latest", "previous" (the lab before the latest), a run ID (e.g., 2024-01-15-143005-9f3a1c), a topic (e.g., "api-gateway") or part of one that matches a single lab, or the path of a lab under ${config.base_output_dir}. If not provided, uses the most recent lab.`,
+        )
+        .optional(),
+      round: tool.schema
+        .number()
+        .int()
+        .min(1)
+        .describe(
+          `Refinement round to review (1 = the original designs). If not provided, uses the latest round.`,
         )
         .optional(),
     },
@@ -52,109 +111,278 @@ Use this after generate_designs to evaluate and compare the generated designs.`,
       const sessionID = toolContext.sessionID;
 
       // Find lab directory
-      const labDir = args.lab_path
-        ? path.resolve(ctx.directory, args.lab_path)
-        : findMostRecentLab(ctx.directory, config.base_output_dir);
-
+      const { labDir, error: selectorError } = resolveLabPath(
+        ctx.directory,
+        config.base_output_dir,
+        args.lab_path,
+      );
+
+      if (selectorError) {
+        return `Error: ${selectorError}. Pass one of these run IDs as lab_path.`;
+      }
       if (!labDir) {
-        return "Error: No design lab found. Run generate_designs first.";
+        return args.lab_path
+          ? `Error: No design lab matches "${args.lab_path}".`
+          : "Error: No design lab found. Run generate_designs first.";
       }
 
-      const designsDir = path.join(labDir, "designs");
-      const reviewsDir = path.join(labDir, "reviews");
-      const scoresDir = path.join(labDir, "scores");
+      const round = args.round ?? findLatestRound(labDir);
+      const designsDir = getRoundDir(labDir, "designs", round);
+      const reviewsDir = getRoundDir(labDir, "reviews", round);
+      const scoresDir = getRoundDir(labDir, "scores", round);
+
+      if (!fs.existsSync(designsDir)) {
+        return `Error: No designs directory found at ${designsDir}.`;
+      }
 
-      // Load all design files (only JSON, not markdown)
-      const designFiles = fs
-        .readdirSync(designsDir)
-        .filter((f) => f.endsWith(".json"));
-      if (designFiles.length === 0) {
+      // A design may exist as JSON (tool path), Markdown (agent path) or
+      // both; Markdown-only designs are converted to design artifacts
+      const designIds = [
+        ...new Set(
+          fs
+            .readdirSync(designsDir)
+            .filter((f) => f.endsWith(".json") || f.endsWith(".md"))
+            .map((f) => f.replace(/\.(json|md)$/, "")),
+        ),
+      ];
+      if (designIds.length === 0) {
         return "Error: No designs found in the lab directory.";
       }
 
-      const designs: Record<string, unknown> = {};
-      for (const file of designFiles) {
-        const designId = file.replace(".json", "");
-        const content = fs.readFileSync(path.join(designsDir, file), "utf-8");
-        designs[designId] = JSON.parse(content);
+      // Key designs by anonymous ID so reviewers cannot tell the author;
+      // aggregate_scores maps the IDs back using the lab's anonymization map
+      const anonymizationMap = ensureAnonymizationMap(labDir, designIds);
+      const designs: Record<string, DesignArtifact> = {};
+      for (const [anonymousId, designId] of Object.entries(anonymizationMap)) {
+        if (!designIds.includes(designId)) {
+          continue;
+        }
+        try {
+          designs[anonymousId] = loadDesignArtifact(designsDir, designId);
+        } catch (err) {
+          const errorMsg = err instanceof Error ? err.message : String(err);
+          return `Error: Could not load design ${designId}: ${errorMsg}`;
+        }
       }
 
-      // Load task requirements
-      const taskPath = path.join(labDir, "task.json");
-      const taskData = JSON.parse(fs.readFileSync(taskPath, "utf-8"));
-      const requirements = taskData.requirements;
+      const budgetReached = checkLabBudget(config, labDir);
+      if (budgetReached) {
+        return `Error: Budget reached for this lab (${budgetReached}). Raise the budget in the config to continue.`;
+      }
 
-      // Run reviews in parallel
-      const reviewPromises = reviewModels.map(async (model) => {
-        try {
-          const { review, scores } = await generateReview(
-            ctx,
-            config,
-            model,
-            requirements,
-            designs,
-            sessionID,
-          );
-
-          // Save review markdown
-          const reviewFile = path.join(
-            reviewsDir,
-            `review-${sanitizeForFilename(getModelShortName(model))}.md`,
-          );
-          fs.writeFileSync(reviewFile, review);
-          logger.info({ model, reviewFile }, "Review saved");
-
-          // Save scores as JSON
-          for (const score of scores) {
-            const validationResult = ScoreSchema.safeParse(score);
-            if (!validationResult.success) {
-              logger.warn(
-                {
-                  designId: score.design_id,
-                  errors: validationResult.error.issues,
+      // Load task requirements (agent-path labs don't record them)
+      const requirements =
+        loadRequirements(labDir) ??
+        "Not recorded for this lab. Judge the designs on their own merits.";
+
+      const comparisonsDir = getRoundDir(labDir, "comparisons", round);
+      if (config.review_mode === "pairwise") {
+        fs.mkdirSync(comparisonsDir, { recursive: true });
+      } else {
+        fs.mkdirSync(reviewsDir, { recursive: true });
+        fs.mkdirSync(scoresDir, { recursive: true });
+      }
+
+      // When resuming an unfinished review, keep the reviews finished before
+      const { models, resumed } = startPhaseRun(
+        labDir,
+        "review",
+        round,
+        reviewModels,
+      );
+      if (resumed) {
+        logger.info(
+          { labDir, round, remaining: models },
+          "Resuming unfinished review",
+        );
+      }
+
+      // Earlier usage of the lab counts towards the budget
+      const usage = createUsageTracker(ctx, config, toolContext.abort);
+      try {
+        usage.setLab(labDir);
+
+        // Run reviews in parallel, within the concurrency limits
+        const onQueuePosition = createQueueProgress(
+          toolContext,
+          "Reviewing designs",
+          models,
+        );
+        const reviewPromises = models.map(async (model) => {
+          try {
+            if (config.review_mode === "pairwise") {
+              const comparisons = await scheduler.run(
+                model,
+                () => {
+                  updateModelRun(labDir, "review", round, model, {
+                    status: "running",
+                  });
+                  return generatePairwiseReview(
+                    ctx,
+                    config,
+                    model,
+                    requirements,
+                    designs,
+                    labDir,
+                    round,
+                    sessionID,
+                    usage,
+                  );
                 },
-                "Score validation warning",
+                onQueuePosition(model),
+              );
+
+              const comparisonFile = path.join(
+                comparisonsDir,
+                `${sanitizeForFilename(getModelShortName(model))}.json`,
+              );
+              fs.writeFileSync(
+                comparisonFile,
+                JSON.stringify(comparisons, null, 2),
+              );
+              logger.info(
+                { model, comparisonFile, count: comparisons.length },
+                "Pairwise comparisons saved",
               );
+
+              // A reviewer with dropped judgments has not finished: mark it
+              // failed so the phase is incomplete and a resume runs it again
+              const expectedPairs = buildComparisonPairs(Object.keys(designs));
+              const missingPairs = expectedPairs.filter(
+                (pair) =>
+                  !comparisons.some(
+                    (c) => c.comparison_id === pair.comparison_id,
+                  ),
+              );
+              if (missingPairs.length > 0) {
+                const error = `Missing ${missingPairs.length} of ${expectedPairs.length} pairwise judgments (${missingPairs.map((p) => p.comparison_id).join(", ")})`;
+                updateModelRun(labDir, "review", round, model, {
+                  status: "failed",
+                  error,
+                  output: path.relative(labDir, comparisonFile),
+                });
+                return { model, success: false, error };
+              }
+
+              updateModelRun(labDir, "review", round, model, {
+                status: "complete",
+                output: path.relative(labDir, comparisonFile),
+              });
+              return { model, success: true };
             }
 
-            const designShortName = getModelShortName(score.design_id);
-            const reviewerShortName = getModelShortName(model);
-            const scoreFile = path.join(
-              scoresDir,
-              `${sanitizeForFilename(designShortName)}-reviewed-by-${sanitizeForFilename(reviewerShortName)}.json`,
+            const { review, scores } = await scheduler.run(
+              model,
+              () => {
+                updateModelRun(labDir, "review", round, model, {
+                  status: "running",
+                });
+                return generateReview(
+                  ctx,
+                  config,
+                  model,
+                  requirements,
+                  designs,
+                  labDir,
+                  round,
+                  sessionID,
+                  usage,
+                );
+              },
+              onQueuePosition(model),
+            );
+
+            // Save review markdown
+            const reviewFile = path.join(
+              reviewsDir,
+              `review-${sanitizeForFilename(getModelShortName(model))}.md`,
             );
-            fs.writeFileSync(scoreFile, JSON.stringify(score, null, 2));
+            fs.writeFileSync(reviewFile, review);
+            logger.info({ model, reviewFile }, "Review saved");
+
+            // Save scores as JSON
+            for (const score of scores) {
+              const designShortName = getModelShortName(score.design_id);
+              const reviewerShortName = getModelShortName(model);
+              const scoreFile = path.join(
+                scoresDir,
+                `${sanitizeForFilename(designShortName)}-reviewed-by-${sanitizeForFilename(reviewerShortName)}.json`,
+              );
+              fs.writeFileSync(scoreFile, JSON.stringify(score, null, 2));
+            }
+
+            updateModelRun(labDir, "review", round, model, {
+              status: "complete",
+              output: path.relative(labDir, reviewFile),
+            });
+            return { model, success: true };
+          } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            updateModelRun(labDir, "review", round, model, {
+              status: usage.signal.aborted ? "cancelled" : "failed",
+              error: errorMsg,
+            });
+            return { model, success: false, error: errorMsg };
+          }
+        });
+
+        // Run all reviews in parallel
+        const settledResults = await Promise.allSettled(reviewPromises);
+
+        // Process results
+        const results: Array<{
+          model: string;
+          success: boolean;
+          error?: string;
+        }> = settledResults.map((result) => {
+          if (result.status === "fulfilled") {
+            return result.value;
+          } else {
+            return { model: "unknown", success: false, error: result.reason };
           }
+        });
+
+        const successCount = results.filter((r) => r.success).length;
+        const failCount = results.filter((r) => !r.success).length;
+
+        await usage.finish(labDir);
+        await saveSessionTranscripts(ctx, config, labDir, usage.sessions());
+        const stoppedByBudget = usage.budgetExceeded();
+        const phaseStatus = finishPhaseRun(
+          labDir,
+          "review",
+          round,
+          stoppedByBudget
+            ? `budget reached (${stoppedByBudget})`
+            : toolContext.abort.aborted
+              ? "cancelled"
+              : undefined,
+        );
+        if (stoppedByBudget) {
+          return `Review stopped: budget reached (${stoppedByBudget}).
 
-          return { model, success: true };
-        } catch (err) {
-          const errorMsg = err instanceof Error ? err.message : String(err);
-          return { model, success: false, error: errorMsg };
-        }
-      });
-
-      // Run all reviews in parallel
-      const settledResults = await Promise.allSettled(reviewPromises);
-
-      // Process results
-      const results: Array<{
-        model: string;
-        success: boolean;
-        error?: string;
-      }> = settledResults.map((result) => {
-        if (result.status === "fulfilled") {
-          return result.value;
-        } else {
-          return { model: "unknown", success: false, error: result.reason };
+**Lab Directory**: ${labDir}
+**Round**: ${round}
+
+**Results**: ${successCount} saved before the budget was reached
+
+Raise the budget and run review_designs again${round > 1 ? ` with round ${round}` : ""} to run the remaining reviewers.`;
         }
-      });
+        if (toolContext.abort.aborted) {
+          return `Review cancelled.
+
+**Lab Directory**: ${labDir}
+**Round**: ${round}
+
+**Results**: ${successCount} saved before the cancel
 
-      const successCount = results.filter((r) => r.success).length;
-      const failCount = results.filter((r) => !r.success).length;
+Run review_designs again${round > 1 ? ` with round ${round}` : ""} to run the remaining reviewers.`;
+        }
 
-      return `Review complete.
+        return `Review complete.
 
 **Lab Directory**: ${labDir}
+**Round**: ${round}
 
 **Results**: ${successCount} successful, ${failCount} failed
 
@@ -164,10 +392,18 @@ ${results
   )
   .join("\n")}
 
-**Reviews saved to**: ${reviewsDir}
-**Scores saved to**: ${scoresDir}
+${
+  config.review_mode === "pairwise"
+    ? `**Comparisons saved to**: ${comparisonsDir}`
+    : `**Reviews saved to**: ${reviewsDir}
+**Scores saved to**: ${scoresDir}`
+}
 
-${successCount > 0 ? `\nNext step: Run the aggregate_scores tool to generate final rankings.` : ""}`;
+${phaseStatus === "incomplete" ? `\nRun review_designs again${round > 1 ? ` with round ${round}` : ""} to retry the failed reviewers.\n` : ""}${successCount > 0 ? `\nNext step: Run the aggregate_scores tool${round > 1 ? ` with round ${round}` : ""} to generate final rankings.` : ""}`;
+      } finally {
+        // finish() has already stopped the tracker unless something threw
+        usage.dispose();
+      }
     },
   });
 }
@@ -181,16 +417,32 @@ async function generateReview(
   model: string,
   requirements: string,
   designs: Record<string, unknown>,
-  parentSessionID?: string,
+  labDir: string,
+  round: number,
+  parentSessionID: string | undefined,
+  usage: UsageTracker,
 ): Promise<{ review: string; scores: Score[] }> {
-  const agentConfig = createReviewAgent(model, config.review_agent_temperature);
+  const agentConfig = createReviewAgent(
+    model,
+    config.review_agent_temperature,
+    config.scoring,
+  );
+  const dimensionNames = getScoreDimensionNames(config.scoring);
+  const abortSignal = usage.signal;
 
   const sessionID = await createAgentSession(
     ctx,
     parentSessionID,
     `Design Review - ${model}`,
     ctx.directory,
+    abortSignal,
   );
+  const timeout = startSessionTimeout(config, "review", model);
+  setSessionTemperature(sessionID, config.review_agent_temperature);
+  usage.track(sessionID, "review", model, round);
+
+  // Let the isolation hook keep this session away from the unblinded designs
+  trackSession(sessionID, { role: "review", labDir });
 
   // Format designs for review
   const designsText = Object.entries(designs)
@@ -213,7 +465,7 @@ ${designsText}
 ## Your Task
 
 1. Analyze each design thoroughly
-2. Compare them across dimensions: clarity, feasibility, scalability, maintainability, completeness
+2. Compare them across dimensions: ${config.scoring.dimensions.map((d) => d.name).join(", ")}
 3. Provide a detailed markdown review with your analysis
 4. At the end, include a score table in markdown format
 5. Identify strengths and weaknesses of each design
@@ -223,8 +475,13 @@ Be objective and support your assessments with specific observations.`;
   // Prepend system prompt
   const fullPrompt = `${agentConfig.prompt}\n\n${prompt}`;
 
-  await sendPrompt(ctx, sessionID, fullPrompt, agentConfig.tools);
-  await pollForCompletion(ctx, sessionID);
+  await sendPrompt(ctx, sessionID, fullPrompt, agentConfig.tools, {
+    retry: config.retries,
+    timeout,
+    abortSignal,
+    model: agentConfig.model,
+  });
+  await waitForCompletion(ctx, sessionID, { timeout, abortSignal });
   const review = await extractSessionOutput(ctx, sessionID);
 
   // Now get structured scores in a follow-up
@@ -235,12 +492,7 @@ Be objective and support your assessments with specific observations.`;
   "design_id": "EXACT_DESIGN_ID_FROM_LIST_BELOW",
   "reviewer_model": "${model}",
   "scores": {
-    "clarity": 0-10,
-    "feasibility": 0-10,
-    "scalability": 0-10,
-    "maintainability": 0-10,
-    "completeness": 0-10,
-    "overall": 0-10
+${dimensionNames.map((name) => `    "${name}": ${formatScale(config.scoring)}`).join(",\n")}
   },
   "justification": "Brief overall justification",
   "strengths": ["list", "of", "strengths"],
@@ -253,11 +505,213 @@ ${designIds.map((id) => `- "${id}"`).join("\n")}
 
 Output ONLY the JSON array with one score object per design. No other text.`;
 
-  await sendPrompt(ctx, sessionID, scoresPrompt, agentConfig.tools);
-  await pollForCompletion(ctx, sessionID);
-  const scoresOutput = await extractSessionOutput(ctx, sessionID);
+  await sendPrompt(ctx, sessionID, scoresPrompt, agentConfig.tools, {
+    retry: config.retries,
+    timeout,
+    abortSignal,
+    model: agentConfig.model,
+  });
+  await waitForCompletion(ctx, sessionID, { timeout, abortSignal });
+
+  const scores = await requestValidJSON(
+    ctx,
+    sessionID,
+    createScoreArraySchema(config.scoring, designIds),
+    {
+      retry: config.retries,
+      tools: agentConfig.tools,
+      timeout,
+      abortSignal,
+      model: agentConfig.model,
+    },
+  );
+
+  // Record the model that actually answered, not the one the reviewer claims
+  const answeringModel = await getAnsweringModel(ctx, sessionID, model);
+
+  // Rank by the configured weights, not the reviewer's own overall
+  for (const score of scores) {
+    if (isOverallInconsistent(score.scores, config.scoring)) {
+      logger.warn(
+        { model, designId: score.design_id, overall: score.scores.overall },
+        "Reviewer's overall score differs from the weighted total; using the weighted total",
+      );
+    }
+  }
+
+  return {
+    review,
+    scores: scores.map((score) => ({
+      ...withWeightedOverall(score, config.scoring),
+      reviewer_model: answeringModel,
+    })),
+  };
+}
+
+/**
+ * Build the schema for a reviewer's score array: one valid score per design,
+ * using only the given design IDs
+ */
+function createScoreArraySchema(scoring: ScoringConfig, designIds: string[]) {
+  return z.array(createScoreSchema(scoring)).superRefine((scores, ctx) => {
+    scores.forEach((score, i) => {
+      if (!designIds.includes(score.design_id)) {
+        ctx.addIssue({
+          code: "custom",
+          path: [i, "design_id"],
+          message: `Unknown design ID "${score.design_id}"; must be one of ${designIds.join(", ")}`,
+        });
+      }
+    });
+    for (const designId of designIds) {
+      const count = scores.filter((s) => s.design_id === designId).length;
+      if (count !== 1) {
+        ctx.addIssue({
+          code: "custom",
+          path: [],
+          message: `Expected exactly one score for ${designId}, got ${count}`,
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Build the schema for a judgment on one ordered pair: the winner must be one
+ * of the two designs shown, or a tie
+ */
+function createPairwiseJudgmentSchema(pair: ComparisonPair) {
+  return z.object({
+    winner: z.enum([pair.first, pair.second, TIE]),
+    rationale: z.string(),
+  });
+}
+
+/**
+ * Generate pairwise judgments using a specific model
+ *
+ * Each ordered pair is its own prompt showing the two designs in that order,
+ * so a pair and its swap are really presented both ways. The forward and
+ * swapped orders run in separate sessions so the reviewer does not see its
+ * judgment of the other order. A comparison whose judgment stays invalid
+ * after the repair attempts is dropped with a warning.
+ */
+async function generatePairwiseReview(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+  model: string,
+  requirements: string,
+  designs: Record<string, unknown>,
+  labDir: string,
+  round: number,
+  parentSessionID: string | undefined,
+  usage: UsageTracker,
+): Promise<PairwiseComparison[]> {
+  const agentConfig = createPairwiseReviewAgent(
+    model,
+    config.review_agent_temperature,
+  );
+  const abortSignal = usage.signal;
+
+  const designIds = Object.keys(designs);
+  const pairs = buildComparisonPairs(designIds);
+  const isForward = (pair: ComparisonPair) =>
+    designIds.indexOf(pair.first) < designIds.indexOf(pair.second);
+  const passes = [pairs.filter(isForward), pairs.filter((p) => !isForward(p))];
+
+  const comparisons: PairwiseComparison[] = [];
+  let answeringModel = model;
+  for (const [passIndex, passPairs] of passes.entries()) {
+    const sessionID = await createAgentSession(
+      ctx,
+      parentSessionID,
+      `Pairwise Review ${passIndex + 1}/${passes.length} - ${model}`,
+      ctx.directory,
+      abortSignal,
+    );
+    const timeout = startSessionTimeout(config, "review", model);
+    setSessionTemperature(sessionID, config.review_agent_temperature);
+    usage.track(sessionID, "review", model, round);
+    trackSession(sessionID, { role: "review", labDir });
+
+    for (const [i, pair] of passPairs.entries()) {
+      const comparisonPrompt = `## Comparison ${pair.comparison_id}
+
+### First design: ${pair.first}
+
+\`\`\`json
+${JSON.stringify(designs[pair.first], null, 2)}
+\`\`\`
+
+### Second design: ${pair.second}
+
+\`\`\`json
+${JSON.stringify(designs[pair.second], null, 2)}
+\`\`\`
+
+## Output
+
+Output ONLY a JSON object:
+
+{
+  "winner": "${pair.first}, ${pair.second} or \"${TIE}\"",
+  "rationale": "Why this design is better"
+}
+
+No other text.`;
+      const prompt =
+        i === 0
+          ? `${agentConfig.prompt}\n\n## Original Requirements\n\n${requirements}\n\n${comparisonPrompt}`
+          : comparisonPrompt;
+
+      try {
+        await sendPrompt(ctx, sessionID, prompt, agentConfig.tools, {
+          retry: config.retries,
+          timeout,
+          abortSignal,
+          model: agentConfig.model,
+        });
+        await waitForCompletion(ctx, sessionID, { timeout, abortSignal });
+        const judgment = await requestValidJSON(
+          ctx,
+          sessionID,
+          createPairwiseJudgmentSchema(pair),
+          {
+            retry: config.retries,
+            tools: agentConfig.tools,
+            timeout,
+            abortSignal,
+            model: agentConfig.model,
+          },
+        );
+        comparisons.push({
+          ...pair,
+          winner: judgment.winner,
+          rationale: judgment.rationale,
+          reviewer_model: model,
+        });
+      } catch (err) {
+        if (abortSignal.aborted) {
+          throw err;
+        }
+        logger.warn(
+          {
+            model,
+            comparisonId: pair.comparison_id,
+            error: err instanceof Error ? err.message : String(err),
+          },
+          "Pairwise judgment missing or invalid",
+        );
+      }
+    }
+
+    answeringModel = await getAnsweringModel(ctx, sessionID, model);
+  }
 
-  const scores = extractJSON<Score[]>(scoresOutput);
+  if (comparisons.length === 0) {
+    throw new Error("No valid pairwise judgments in reviewer output");
+  }
 
-  return { review, scores };
+  // Record the model that actually answered, not the one requested
+  return comparisons.map((c) => ({ ...c, reviewer_model: answeringModel }));
 }
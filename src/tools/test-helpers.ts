@@ -0,0 +1,146 @@
+import type { PluginInput, ToolContext } from "@opencode-ai/plugin";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { DesignArtifact } from "../config";
+
+/**
+ * Design models of the test lab; the fake client answers as the first
+ */
+export const MODELS = ["openai/gpt-5", "anthropic/claude-4"];
+
+export const LAB_ID = "2026-01-01-000000-abcdef";
+
+/**
+ * A valid design artifact, used for every design and revision
+ */
+export const design: DesignArtifact = {
+  title: "Cache",
+  summary: "A read-through cache",
+  assumptions: ["Reads dominate"],
+  architecture_overview: "A cache in front of the database",
+  components: [
+    {
+      name: "Cache",
+      description: "Stores hot keys",
+      responsibilities: ["Serve reads"],
+    },
+  ],
+  data_flow: "Client to cache to database",
+  tradeoffs: [
+    {
+      aspect: "Store",
+      options: ["Redis", "Memcached"],
+      chosen: "Redis",
+      rationale: "Persistence",
+    },
+  ],
+  risks: [{ risk: "Stale reads", impact: "medium", mitigation: "Short TTLs" }],
+  open_questions: ["Eviction policy?"],
+};
+
+/**
+ * Fake OpenCode client whose sessions answer every prompt at once with the
+ * responder's reply
+ */
+export function createFakeContext(
+  projectDir: string,
+  respond: (prompt: string) => string,
+) {
+  const sessions = new Map<string, unknown[]>();
+  const prompts: string[] = [];
+  let nextId = 0;
+
+  const session = {
+    create: async () => {
+      const id = `ses_${++nextId}`;
+      sessions.set(id, []);
+      return { data: { id } };
+    },
+    prompt: async ({
+      path: { id },
+      body,
+    }: {
+      path: { id: string };
+      body: { parts: { text: string }[] };
+    }) => {
+      const text = body.parts[0].text;
+      prompts.push(text);
+      const [providerID, modelID] = MODELS[0].split("/");
+      sessions.get(id)?.push(
+        {
+          info: { id: `msg_${++nextId}`, role: "user" },
+          parts: [{ type: "text", text }],
+        },
+        {
+          info: {
+            id: `msg_${++nextId}`,
+            sessionID: id,
+            role: "assistant",
+            providerID,
+            modelID,
+            time: { created: 1, completed: 2 },
+            tokens: {
+              input: 1,
+              output: 1,
+              reasoning: 0,
+              cache: { read: 0, write: 0 },
+            },
+            cost: 0,
+          },
+          parts: [{ type: "text", text: respond(text) }],
+        },
+      );
+      return { data: {} };
+    },
+    status: async () => ({ data: {} }),
+    messages: async ({ path: { id } }: { path: { id: string } }) => ({
+      data: sessions.get(id) ?? [],
+    }),
+    abort: async () => ({ data: true }),
+  };
+
+  return {
+    ctx: {
+      directory: projectDir,
+      client: { session },
+    } as unknown as PluginInput,
+    prompts,
+  };
+}
+
+export function createToolContext(): ToolContext {
+  return {
+    sessionID: "ses_parent",
+    messageID: "msg_parent",
+    agent: "designer",
+    abort: new AbortController().signal,
+    metadata: () => {},
+  } as unknown as ToolContext;
+}
+
+/**
+ * Create a project with one lab holding a design from each of MODELS
+ *
+ * @returns The project and lab directories
+ */
+export function createTestLab(): { projectDir: string; labDir: string } {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "design-lab-"));
+  const labDir = path.join(projectDir, ".design-lab", LAB_ID);
+  fs.mkdirSync(path.join(labDir, "designs"), { recursive: true });
+  fs.writeFileSync(
+    path.join(labDir, "task.json"),
+    JSON.stringify({
+      run_id: LAB_ID,
+      requirements: "Cache reads",
+      topic: "cache",
+    }),
+  );
+  for (const stem of ["gpt-5", "claude-4"]) {
+    fs.writeFileSync(
+      path.join(labDir, "designs", `${stem}.json`),
+      JSON.stringify({ ...design, title: `Cache by ${stem}` }),
+    );
+  }
+  return { projectDir, labDir };
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCORING_CONFIG, type Score } from "../config";
+import {
+  computeAgreement,
+  interpretAlpha,
+  interpretKendallsW,
+  kendallsCoefficientOfConcordance,
+  krippendorffsAlphaInterval,
+  spearmanCorrelation,
+} from "./agreement-helpers";
+import { getScoreDimensionNames } from "./scoring-helpers";
+
+/**
+ * Score with every dimension set to the overall score
+ */
+function score(reviewer: string, design: string, overall: number): Score {
+  return {
+    design_id: design,
+    reviewer_model: reviewer,
+    scores: Object.fromEntries(
+      getScoreDimensionNames(DEFAULT_SCORING_CONFIG).map((d) => [d, overall]),
+    ),
+    justification: "",
+    strengths: [],
+    weaknesses: [],
+    missing_considerations: [],
+  };
+}
+
+describe("kendallsCoefficientOfConcordance", () => {
+  it("is 1 when every rater ranks the items the same way", () => {
+    expect(
+      kendallsCoefficientOfConcordance([
+        [1, 2, 3],
+        [4, 5, 9],
+        [0, 7, 8],
+      ]),
+    ).toBeCloseTo(1);
+  });
+
+  it("is 0 when two raters rank the items in opposite orders", () => {
+    expect(
+      kendallsCoefficientOfConcordance([
+        [1, 2, 3],
+        [3, 2, 1],
+      ]),
+    ).toBeCloseTo(0);
+  });
+
+  it("corrects for tied ranks", () => {
+    // Ranks [1.5, 1.5, 3] and [1, 2, 3]: S = 6.5 and the tie correction is
+    // 6, so W = 12 * 6.5 / (4 * 24 - 2 * 6)
+    expect(
+      kendallsCoefficientOfConcordance([
+        [5, 5, 8],
+        [1, 2, 3],
+      ]),
+    ).toBeCloseTo(78 / 84);
+  });
+
+  it("needs two raters and two items, and a ranking", () => {
+    expect(kendallsCoefficientOfConcordance([[1, 2, 3]])).toBeNull();
+    expect(kendallsCoefficientOfConcordance([[1], [2]])).toBeNull();
+    expect(
+      kendallsCoefficientOfConcordance([
+        [4, 4],
+        [7, 7],
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe("krippendorffsAlphaInterval", () => {
+  it("is 1 when raters agree on every unit", () => {
+    expect(
+      krippendorffsAlphaInterval([
+        [1, 1],
+        [5, 5],
+        [9, 9],
+      ]),
+    ).toBeCloseTo(1);
+  });
+
+  it("matches a hand-computed value", () => {
+    // Observed disagreement 1, expected 35/3
+    expect(
+      krippendorffsAlphaInterval([
+        [1, 2],
+        [5, 6],
+      ]),
+    ).toBeCloseTo(1 - 3 / 35);
+  });
+
+  it("ignores units with a single value", () => {
+    expect(krippendorffsAlphaInterval([[1, 1], [5, 5], [3]])).toBeCloseTo(1);
+  });
+
+  it("is null without pairable values or variation", () => {
+    expect(krippendorffsAlphaInterval([[1], [2]])).toBeNull();
+    expect(
+      krippendorffsAlphaInterval([
+        [3, 3],
+        [3, 3],
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe("spearmanCorrelation", () => {
+  it("is 1 for the same order and -1 for the opposite order", () => {
+    expect(spearmanCorrelation([1, 2, 3], [10, 20, 30])).toBeCloseTo(1);
+    expect(spearmanCorrelation([1, 2, 3], [30, 20, 10])).toBeCloseTo(-1);
+  });
+
+  it("is null with fewer than 3 items or a constant rater", () => {
+    expect(spearmanCorrelation([1, 2], [1, 2])).toBeNull();
+    expect(spearmanCorrelation([1, 2, 3], [5, 5, 5])).toBeNull();
+  });
+});
+
+describe("computeAgreement", () => {
+  it("uses only designs every reviewer scored for Kendall's W", () => {
+    const report = computeAgreement(
+      [
+        score("r1", "a", 9),
+        score("r1", "b", 6),
+        score("r1", "c", 3),
+        score("r1", "d", 5),
+        score("r2", "a", 8),
+        score("r2", "b", 5),
+        score("r2", "c", 2),
+      ],
+      DEFAULT_SCORING_CONFIG,
+    );
+
+    expect(report.reviewers).toEqual(["r1", "r2"]);
+    expect(report.designs).toEqual(["a", "b", "c", "d"]);
+    expect(report.kendalls_w).toMatchObject({
+      reviewer_count: 2,
+      design_count: 3,
+      interpretation: "very strong agreement",
+    });
+    expect(report.kendalls_w.value).toBeCloseTo(1);
+    expect(report.reviewer_correlations).toEqual([
+      {
+        reviewer_a: "r1",
+        reviewer_b: "r2",
+        spearman_rho: expect.closeTo(1),
+        shared_designs: 3,
+      },
+    ]);
+    expect(Object.keys(report.krippendorff_alpha)).toEqual(
+      getScoreDimensionNames(DEFAULT_SCORING_CONFIG),
+    );
+  });
+
+  it("reports no agreement for a single reviewer", () => {
+    const report = computeAgreement(
+      [score("r1", "a", 9), score("r1", "b", 6)],
+      DEFAULT_SCORING_CONFIG,
+    );
+    expect(report.kendalls_w.value).toBeNull();
+    expect(report.kendalls_w.interpretation).toBe("not enough data");
+    expect(report.reviewer_correlations).toEqual([]);
+  });
+});
+
+describe("interpretations", () => {
+  it("describes Kendall's W and Krippendorff's alpha", () => {
+    expect(interpretKendallsW(0.05)).toBe("very weak agreement");
+    expect(interpretKendallsW(0.6)).toBe("strong agreement");
+    expect(interpretAlpha(0.85)).toBe("reliable");
+    expect(interpretAlpha(0.7)).toBe("tentative");
+    expect(interpretAlpha(0.2)).toBe("unreliable");
+  });
+});
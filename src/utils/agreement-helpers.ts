@@ -0,0 +1,264 @@
+import type { Score, ScoringConfig } from "../config";
+import { averageRanks } from "./normalization-helpers";
+import { getScoreDimensionNames } from "./scoring-helpers";
+
+/**
+ * Inter-rater agreement statistics written to results/agreement.json
+ */
+export type AgreementReport = {
+  reviewers: string[];
+  designs: string[];
+  /**
+   * Kendall's coefficient of concordance over reviewers' rankings of the
+   * designs by overall score (0 = no agreement, 1 = identical rankings).
+   * Only designs scored by every reviewer are included.
+   */
+  kendalls_w: {
+    value: number | null;
+    interpretation: string;
+    reviewer_count: number;
+    design_count: number;
+  };
+  /**
+   * Krippendorff's alpha (interval metric) per score dimension
+   * (1 = perfect agreement, 0 = chance level, < 0 = systematic disagreement)
+   */
+  krippendorff_alpha: Record<
+    string,
+    { value: number | null; interpretation: string }
+  >;
+  /**
+   * Spearman rank correlation of overall scores for every pair of reviewers
+   */
+  reviewer_correlations: Array<{
+    reviewer_a: string;
+    reviewer_b: string;
+    spearman_rho: number | null;
+    shared_designs: number;
+  }>;
+};
+
+/**
+ * Compute agreement statistics for a set of scores
+ */
+export function computeAgreement(
+  scores: Score[],
+  scoring: ScoringConfig,
+): AgreementReport {
+  const reviewers = [...new Set(scores.map((s) => s.reviewer_model))].sort();
+  const designs = [...new Set(scores.map((s) => s.design_id))].sort();
+
+  const lookup = (reviewer: string, design: string, dim: string) => {
+    const value = scores.find(
+      (s) => s.reviewer_model === reviewer && s.design_id === design,
+    )?.scores[dim];
+    return typeof value === "number" ? value : null;
+  };
+
+  // Kendall's W needs a complete block: designs every reviewer scored
+  const completeDesigns = designs.filter((d) =>
+    reviewers.every((r) => lookup(r, d, "overall") !== null),
+  );
+  const kendallsW = kendallsCoefficientOfConcordance(
+    reviewers.map((r) =>
+      completeDesigns.map((d) => lookup(r, d, "overall") as number),
+    ),
+  );
+
+  const krippendorffAlpha: AgreementReport["krippendorff_alpha"] = {};
+  for (const dim of getScoreDimensionNames(scoring)) {
+    const value = krippendorffsAlphaInterval(
+      designs.map((d) =>
+        reviewers
+          .map((r) => lookup(r, d, dim))
+          .filter((v): v is number => v !== null),
+      ),
+    );
+    krippendorffAlpha[dim] = { value, interpretation: interpretAlpha(value) };
+  }
+
+  const reviewerCorrelations: AgreementReport["reviewer_correlations"] = [];
+  for (let i = 0; i < reviewers.length; i++) {
+    for (let j = i + 1; j < reviewers.length; j++) {
+      const shared = designs.filter(
+        (d) =>
+          lookup(reviewers[i], d, "overall") !== null &&
+          lookup(reviewers[j], d, "overall") !== null,
+      );
+      reviewerCorrelations.push({
+        reviewer_a: reviewers[i],
+        reviewer_b: reviewers[j],
+        spearman_rho: spearmanCorrelation(
+          shared.map((d) => lookup(reviewers[i], d, "overall") as number),
+          shared.map((d) => lookup(reviewers[j], d, "overall") as number),
+        ),
+        shared_designs: shared.length,
+      });
+    }
+  }
+
+  return {
+    reviewers,
+    designs,
+    kendalls_w: {
+      value: kendallsW,
+      interpretation: interpretKendallsW(kendallsW),
+      reviewer_count: reviewers.length,
+      design_count: completeDesigns.length,
+    },
+    krippendorff_alpha: krippendorffAlpha,
+    reviewer_correlations: reviewerCorrelations,
+  };
+}
+
+/**
+ * Kendall's W with tie correction
+ *
+ * @param ratings - One row per rater, one column per item (higher is better)
+ * @returns W in [0, 1], or null with fewer than 2 raters or 2 items
+ */
+export function kendallsCoefficientOfConcordance(
+  ratings: number[][],
+): number | null {
+  const m = ratings.length;
+  const n = ratings[0]?.length ?? 0;
+  if (m < 2 || n < 2) {
+    return null;
+  }
+
+  const ranks = ratings.map((row) => averageRanks(row));
+  const rankSums = Array.from({ length: n }, (_, item) =>
+    ranks.reduce((sum, row) => sum + row[item], 0),
+  );
+  const meanRankSum = (m * (n + 1)) / 2;
+  const s = rankSums.reduce((sum, r) => sum + Math.pow(r - meanRankSum, 2), 0);
+
+  // Tie correction: sum of (t^3 - t) over groups of tied ranks per rater
+  const tieCorrection = ranks.reduce((sum, row) => {
+    const counts = new Map<number, number>();
+    row.forEach((r) => counts.set(r, (counts.get(r) ?? 0) + 1));
+    return (
+      sum + [...counts.values()].reduce((acc, t) => acc + (t * t * t - t), 0)
+    );
+  }, 0);
+
+  const denominator = m * m * (n * n * n - n) - m * tieCorrection;
+  if (denominator <= 0) {
+    // Every rater tied every item: there is no ranking to agree on
+    return null;
+  }
+  return (12 * s) / denominator;
+}
+
+/**
+ * Krippendorff's alpha for interval data
+ *
+ * @param units - Values assigned to each unit by the raters who rated it;
+ *   units with fewer than 2 values are not pairable and are ignored
+ * @returns alpha, or null when there is too little data or no variation
+ */
+export function krippendorffsAlphaInterval(units: number[][]): number | null {
+  const pairable = units.filter((u) => u.length >= 2);
+  const values = pairable.flat();
+  const n = values.length;
+  if (pairable.length === 0 || n < 2) {
+    return null;
+  }
+
+  let observed = 0;
+  for (const unit of pairable) {
+    let unitSum = 0;
+    for (let i = 0; i < unit.length; i++) {
+      for (let j = 0; j < unit.length; j++) {
+        if (i !== j) {
+          unitSum += Math.pow(unit[i] - unit[j], 2);
+        }
+      }
+    }
+    observed += unitSum / (unit.length - 1);
+  }
+  observed /= n;
+
+  let expected = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i !== j) {
+        expected += Math.pow(values[i] - values[j], 2);
+      }
+    }
+  }
+  expected /= n * (n - 1);
+
+  if (expected === 0) {
+    return null;
+  }
+  return 1 - observed / expected;
+}
+
+/**
+ * Spearman's rank correlation (Pearson correlation of average ranks)
+ *
+ * @returns rho in [-1, 1], or null with fewer than 3 shared items or when
+ *   either rater gave every item the same score
+ */
+export function spearmanCorrelation(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 3) {
+    return null;
+  }
+  const ra = averageRanks(a);
+  const rb = averageRanks(b);
+  const meanA = ra.reduce((x, y) => x + y, 0) / ra.length;
+  const meanB = rb.reduce((x, y) => x + y, 0) / rb.length;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < ra.length; i++) {
+    covariance += (ra[i] - meanA) * (rb[i] - meanB);
+    varianceA += Math.pow(ra[i] - meanA, 2);
+    varianceB += Math.pow(rb[i] - meanB, 2);
+  }
+
+  if (varianceA === 0 || varianceB === 0) {
+    return null;
+  }
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * Describe Kendall's W using Schmidt's (1997) guidelines
+ */
+export function interpretKendallsW(w: number | null): string {
+  if (w === null) {
+    return "not enough data";
+  }
+  if (w < 0.1) {
+    return "very weak agreement";
+  }
+  if (w < 0.3) {
+    return "weak agreement";
+  }
+  if (w < 0.5) {
+    return "moderate agreement";
+  }
+  if (w < 0.7) {
+    return "strong agreement";
+  }
+  return "very strong agreement";
+}
+
+/**
+ * Describe Krippendorff's alpha using Krippendorff's (2004) thresholds
+ */
+export function interpretAlpha(alpha: number | null): string {
+  if (alpha === null) {
+    return "not enough data";
+  }
+  if (alpha >= 0.8) {
+    return "reliable";
+  }
+  if (alpha >= 0.667) {
+    return "tentative";
+  }
+  return "unreliable";
+}
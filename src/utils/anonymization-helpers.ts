@@ -0,0 +1,120 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * File in the lab directory that maps anonymous design IDs to design IDs
+ */
+export const ANONYMIZATION_FILE = "anonymization.json";
+
+/**
+ * Directory in the lab directory holding anonymized copies of markdown designs
+ */
+export const BLIND_DESIGNS_DIR = "blind";
+
+/**
+ * Anonymous design ID -> real design ID (the model file stem)
+ * e.g., { "design-A": "gpt-5-2-codex" }
+ */
+export type AnonymizationMap = Record<string, string>;
+
+type AnonymizationFile = {
+  created: string;
+  designs: AnonymizationMap;
+};
+
+/**
+ * Build the anonymous label for the n-th design
+ * e.g., 0 -> "design-A", 25 -> "design-Z", 26 -> "design-AA"
+ */
+export function getAnonymousDesignId(index: number): string {
+  let label = "";
+  let n = index;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return `design-${label}`;
+}
+
+/**
+ * Load the anonymization map for a lab, if one has been created
+ */
+export function loadAnonymizationMap(labDir: string): AnonymizationMap | null {
+  const mapPath = path.join(labDir, ANONYMIZATION_FILE);
+  if (!fs.existsSync(mapPath)) {
+    return null;
+  }
+  const content = JSON.parse(
+    fs.readFileSync(mapPath, "utf-8"),
+  ) as AnonymizationFile;
+  return content.designs;
+}
+
+/**
+ * Load the lab's anonymization map, creating or extending it so every design
+ * ID has a label. Labels are assigned in shuffled order so they carry no
+ * information about which model wrote which design, and existing labels are
+ * kept so re-running a review reuses the same mapping.
+ */
+export function ensureAnonymizationMap(
+  labDir: string,
+  designIds: string[],
+): AnonymizationMap {
+  const existing = loadAnonymizationMap(labDir) ?? {};
+  const labelled = new Set(Object.values(existing));
+  const unlabelled = shuffle(designIds.filter((id) => !labelled.has(id)));
+
+  if (unlabelled.length === 0) {
+    return existing;
+  }
+
+  const map: AnonymizationMap = { ...existing };
+  let index = 0;
+  for (const designId of unlabelled) {
+    while (map[getAnonymousDesignId(index)]) {
+      index++;
+    }
+    map[getAnonymousDesignId(index)] = designId;
+  }
+
+  const content: AnonymizationFile = {
+    created: new Date().toISOString(),
+    designs: sortByLabel(map),
+  };
+  fs.writeFileSync(
+    path.join(labDir, ANONYMIZATION_FILE),
+    JSON.stringify(content, null, 2),
+  );
+
+  return content.designs;
+}
+
+/**
+ * Map an anonymous design ID back to its design ID
+ * IDs that are not in the map (e.g. labs reviewed before anonymization) are
+ * returned unchanged.
+ */
+export function deanonymizeDesignId(
+  designId: string,
+  map: AnonymizationMap | null,
+): string {
+  return map?.[designId] ?? designId;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function sortByLabel(map: AnonymizationMap): AnonymizationMap {
+  return Object.fromEntries(
+    Object.entries(map).sort(
+      ([a], [b]) => a.length - b.length || a.localeCompare(b),
+    ),
+  );
+}
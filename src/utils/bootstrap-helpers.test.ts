@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { Score } from "../config";
+import {
+  bootstrapScoreIntervals,
+  createSeededRandom,
+  findOverlappingIntervals,
+} from "./bootstrap-helpers";
+
+function score(reviewer: string, design: string, overall: number): Score {
+  return {
+    design_id: design,
+    reviewer_model: reviewer,
+    scores: { overall },
+    justification: "",
+    strengths: [],
+    weaknesses: [],
+    missing_considerations: [],
+  };
+}
+
+const options = { iterations: 500, confidence: 0.95, seed: 42 };
+
+describe("createSeededRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createSeededRandom(7);
+    const b = createSeededRandom(7);
+    const c = createSeededRandom(8);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(Array.from({ length: 5 }, c)).not.toEqual(first);
+  });
+
+  it("returns values in [0, 1)", () => {
+    const random = createSeededRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("bootstrapScoreIntervals", () => {
+  const scores = [
+    score("r1", "a", 9),
+    score("r1", "b", 5),
+    score("r2", "a", 7),
+    score("r2", "b", 6),
+    score("r3", "a", 8),
+    score("r3", "b", 4),
+  ];
+
+  it("is deterministic for a seed", () => {
+    expect(bootstrapScoreIntervals(scores, options)).toEqual(
+      bootstrapScoreIntervals(scores, options),
+    );
+  });
+
+  it("keeps intervals within the reviewers' scores", () => {
+    const intervals = bootstrapScoreIntervals(scores, options);
+    expect(intervals.a.score[0]).toBeGreaterThanOrEqual(7);
+    expect(intervals.a.score[1]).toBeLessThanOrEqual(9);
+    expect(intervals.a.score[0]).toBeLessThanOrEqual(intervals.a.score[1]);
+    // Every reviewer scored "a" above "b", so the ranks never change
+    expect(intervals.a.rank).toEqual([1, 1]);
+    expect(intervals.b.rank).toEqual([2, 2]);
+  });
+
+  it("collapses to the scores with a single reviewer", () => {
+    const intervals = bootstrapScoreIntervals(
+      [score("r1", "a", 6), score("r1", "b", 8)],
+      options,
+    );
+    expect(intervals).toEqual({
+      a: { score: [6, 6], rank: [2, 2] },
+      b: { score: [8, 8], rank: [1, 1] },
+    });
+  });
+
+  it("widens the rank interval when reviewers disagree", () => {
+    const intervals = bootstrapScoreIntervals(
+      [
+        score("r1", "a", 9),
+        score("r1", "b", 3),
+        score("r2", "a", 2),
+        score("r2", "b", 8),
+      ],
+      options,
+    );
+    expect(intervals.a.rank).toEqual([1, 2]);
+    expect(intervals.b.rank).toEqual([1, 2]);
+  });
+});
+
+describe("findOverlappingIntervals", () => {
+  it("lists the designs whose score intervals overlap", () => {
+    expect(
+      findOverlappingIntervals({
+        a: { score: [7, 9], rank: [1, 1] },
+        b: { score: [6, 7.5], rank: [2, 3] },
+        c: { score: [2, 4], rank: [3, 3] },
+      }),
+    ).toEqual({ a: ["b"], b: ["a"], c: [] });
+  });
+});
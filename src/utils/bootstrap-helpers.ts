@@ -0,0 +1,126 @@
+import type { Score } from "../config";
+
+/**
+ * Bootstrap confidence interval for a design's score and rank
+ */
+export type BootstrapInterval = {
+  score: [number, number];
+  rank: [number, number];
+};
+
+type BootstrapOptions = {
+  iterations: number;
+  confidence: number;
+  seed: number;
+};
+
+/**
+ * Create a deterministic pseudo-random generator (mulberry32) so repeated
+ * aggregations of the same scores produce the same intervals
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Bootstrap overall scores by resampling reviewers with replacement
+ *
+ * Each iteration draws as many reviewers as there are, averages each design's
+ * overall score over the drawn reviewers, and ranks the designs. Percentile
+ * intervals of the averages and ranks are returned per design. Designs no
+ * drawn reviewer scored are left out of that iteration.
+ */
+export function bootstrapScoreIntervals(
+  scores: Score[],
+  options: BootstrapOptions,
+): Record<string, BootstrapInterval> {
+  const random = createSeededRandom(options.seed);
+  const reviewers = [...new Set(scores.map((s) => s.reviewer_model))];
+  const designs = [...new Set(scores.map((s) => s.design_id))];
+  const scoresByReviewer = new Map(
+    reviewers.map((r) => [r, scores.filter((s) => s.reviewer_model === r)]),
+  );
+
+  const sampledScores: Record<string, number[]> = Object.fromEntries(
+    designs.map((d) => [d, []]),
+  );
+  const sampledRanks: Record<string, number[]> = Object.fromEntries(
+    designs.map((d) => [d, []]),
+  );
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    const totals = new Map<string, { sum: number; count: number }>();
+    for (let i = 0; i < reviewers.length; i++) {
+      const reviewer = reviewers[Math.floor(random() * reviewers.length)];
+      for (const score of scoresByReviewer.get(reviewer) ?? []) {
+        const total = totals.get(score.design_id) ?? { sum: 0, count: 0 };
+        total.sum += score.scores.overall;
+        total.count++;
+        totals.set(score.design_id, total);
+      }
+    }
+
+    const means = [...totals.entries()]
+      .map(([design, t]) => ({ design, mean: t.sum / t.count }))
+      .sort((a, b) => b.mean - a.mean);
+    means.forEach(({ design, mean }, i) => {
+      sampledScores[design].push(mean);
+      sampledRanks[design].push(i + 1);
+    });
+  }
+
+  const tail = (1 - options.confidence) / 2;
+  return Object.fromEntries(
+    designs.map((design) => [
+      design,
+      {
+        score: percentileInterval(sampledScores[design], tail),
+        rank: percentileInterval(sampledRanks[design], tail),
+      },
+    ]),
+  );
+}
+
+/**
+ * Find, for each design, the other designs whose score intervals overlap its
+ * own, i.e. designs it cannot be statistically distinguished from
+ */
+export function findOverlappingIntervals(
+  intervals: Record<string, BootstrapInterval>,
+): Record<string, string[]> {
+  const designs = Object.keys(intervals);
+  return Object.fromEntries(
+    designs.map((design) => {
+      const [low, high] = intervals[design].score;
+      return [
+        design,
+        designs.filter((other) => {
+          if (other === design) {
+            return false;
+          }
+          const [otherLow, otherHigh] = intervals[other].score;
+          return low <= otherHigh && otherLow <= high;
+        }),
+      ];
+    }),
+  );
+}
+
+function percentileInterval(values: number[], tail: number): [number, number] {
+  if (values.length === 0) {
+    return [Number.NaN, Number.NaN];
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) =>
+    sorted[
+      Math.min(sorted.length - 1, Math.max(0, Math.floor(q * sorted.length)))
+    ];
+  return [at(tail), at(1 - tail)];
+}
@@ -0,0 +1,116 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import type { DesignArtifact } from "../config";
+import {
+  formatDesignAsMarkdown,
+  loadDesignArtifact,
+  parseDesignMarkdown,
+} from "./design-markdown";
+
+const design: DesignArtifact = {
+  title: "Rate Limiter Service",
+  summary: "A token-bucket rate limiter shared by all API gateways.",
+  goals: ["Limit requests per API key", "Add under 2 ms of latency"],
+  non_goals: ["Billing", "Abuse detection"],
+  assumptions: ["Redis is available", "Keys are known at the edge"],
+  architecture_overview:
+    "Gateways call a limiter sidecar, which keeps buckets in Redis.\n\nBuckets are sharded by API key.",
+  components: [
+    {
+      name: "Limiter Sidecar",
+      description: "Checks and updates buckets for each request.",
+      responsibilities: ["Evaluate limits", "Cache hot buckets"],
+    },
+    {
+      name: "Config Service",
+      description: "Stores limits per plan.",
+      responsibilities: ["Serve limits", "Audit changes"],
+    },
+  ],
+  data_flow: "Request → gateway → sidecar → Redis → response.",
+  tradeoffs: [
+    {
+      aspect: "Bucket store",
+      options: ["Redis", "In-memory"],
+      chosen: "Redis",
+      rationale: "Shared across gateway instances.",
+    },
+    {
+      aspect: "Algorithm",
+      options: ["Token bucket", "Sliding window"],
+      chosen: "Token bucket",
+      rationale: "Allows short bursts.",
+    },
+  ],
+  risks: [
+    {
+      risk: "Redis outage",
+      impact: "high",
+      mitigation: "Fail open with local limits.",
+    },
+    {
+      risk: "Clock skew",
+      impact: "low",
+      mitigation: "Use Redis time.",
+    },
+  ],
+  open_questions: ["Per-region limits?", "How to expose remaining quota?"],
+};
+
+describe("formatDesignAsMarkdown and parseDesignMarkdown", () => {
+  it("round-trips a full design artifact", () => {
+    const markdown = formatDesignAsMarkdown(design, "openai/gpt-5");
+
+    expect(markdown).toContain("**Model**: openai/gpt-5");
+    expect(parseDesignMarkdown(markdown)).toEqual({
+      design,
+      missingSections: [],
+    });
+  });
+
+  it("round-trips a design without goals or non-goals", () => {
+    const { goals: _goals, non_goals: _nonGoals, ...rest } = design;
+
+    const { design: parsed } = parseDesignMarkdown(
+      formatDesignAsMarkdown(rest, "openai/gpt-5"),
+    );
+
+    expect(parsed).toEqual(rest);
+    expect(parsed).not.toHaveProperty("goals");
+  });
+
+  it("lists required sections the markdown lacks", () => {
+    const { missingSections } = parseDesignMarkdown(
+      "# Title\n\n## Summary\n\nShort.\n\n## Risks\n\n- Outage",
+    );
+
+    expect(missingSections).toEqual([
+      "architecture_overview",
+      "components",
+      "data_flow",
+      "tradeoffs",
+      "open_questions",
+    ]);
+  });
+});
+
+describe("loadDesignArtifact", () => {
+  it("falls back to the markdown design when there is no JSON file", () => {
+    const designsDir = fs.mkdtempSync(path.join(os.tmpdir(), "designs-"));
+    try {
+      fs.writeFileSync(
+        path.join(designsDir, "gpt-5.md"),
+        formatDesignAsMarkdown(design, "openai/gpt-5"),
+      );
+
+      expect(loadDesignArtifact(designsDir, "gpt-5")).toEqual(design);
+      expect(() => loadDesignArtifact(designsDir, "claude-4")).toThrow(
+        "No design found for claude-4",
+      );
+    } finally {
+      fs.rmSync(designsDir, { recursive: true, force: true });
+    }
+  });
+});
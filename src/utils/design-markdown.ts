@@ -0,0 +1,537 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DesignArtifactSchema, type DesignArtifact } from "../config";
+
+type SectionKey = keyof DesignArtifact;
+
+/**
+ * Section headings (normalized) that map to each design artifact field
+ */
+const SECTION_ALIASES: Record<SectionKey, string[]> = {
+  title: ["title"],
+  summary: ["summary", "executive summary", "overview"],
+  goals: ["goals"],
+  non_goals: ["non goals", "nongoals"],
+  assumptions: ["assumptions"],
+  architecture_overview: ["architecture", "architecture overview"],
+  components: ["components"],
+  data_flow: ["data flow"],
+  tradeoffs: ["tradeoffs", "trade offs"],
+  risks: ["risks"],
+  open_questions: ["open questions"],
+};
+
+/**
+ * Fields every design must have a section for
+ */
+const REQUIRED_SECTIONS: SectionKey[] = [
+  "summary",
+  "architecture_overview",
+  "components",
+  "data_flow",
+  "tradeoffs",
+  "risks",
+  "open_questions",
+];
+
+/**
+ * Format a design artifact as markdown for human readability
+ */
+export function formatDesignAsMarkdown(
+  design: DesignArtifact,
+  model: string,
+): string {
+  let md = `# ${design.title}\n\n`;
+  md += `**Model**: ${model}\n\n`;
+  md += `## Summary\n\n${design.summary}\n\n`;
+
+  if (design.goals) {
+    md += `## Goals\n\n`;
+    design.goals.forEach((g: string) => (md += `- ${g}\n`));
+    md += `\n`;
+  }
+
+  if (design.non_goals) {
+    md += `## Non-Goals\n\n`;
+    design.non_goals.forEach((g: string) => (md += `- ${g}\n`));
+    md += `\n`;
+  }
+
+  md += `## Assumptions\n\n`;
+  design.assumptions.forEach((a: string) => (md += `- ${a}\n`));
+  md += `\n`;
+
+  md += `## Architecture Overview\n\n${design.architecture_overview}\n\n`;
+
+  md += `## Components\n\n`;
+  design.components.forEach((c: DesignArtifact["components"][0]) => {
+    md += `### ${c.name}\n\n${c.description}\n\n**Responsibilities**:\n`;
+    c.responsibilities.forEach((r: string) => (md += `- ${r}\n`));
+    md += `\n`;
+  });
+
+  md += `## Data Flow\n\n${design.data_flow}\n\n`;
+
+  md += `## Tradeoffs\n\n`;
+  design.tradeoffs.forEach((t: DesignArtifact["tradeoffs"][0]) => {
+    md += `### ${t.aspect}\n\n`;
+    md += `**Options**:\n`;
+    t.options.forEach((o: string) => (md += `- ${o}\n`));
+    md += `\n`;
+    md += `**Chosen**: ${t.chosen}\n\n`;
+    md += `**Rationale**: ${t.rationale}\n\n`;
+  });
+
+  md += `## Risks\n\n`;
+  design.risks.forEach((r: DesignArtifact["risks"][0]) => {
+    md += `### ${r.risk} (Impact: ${r.impact})\n\n`;
+    md += `**Mitigation**: ${r.mitigation}\n\n`;
+  });
+
+  md += `## Open Questions\n\n`;
+  design.open_questions.forEach((q: string) => (md += `- ${q}\n`));
+
+  return md;
+}
+
+/**
+ * Convert a markdown design to a design artifact
+ *
+ * Reads the sections agent-path designers write (Title, Summary, Goals,
+ * Non-Goals, Architecture, Components, Data Flow, Tradeoffs, Risks, Open
+ * Questions) as well as the output of formatDesignAsMarkdown. Headings may be
+ * numbered ("## 3. Architecture"). Components, tradeoffs and risks are read
+ * from ### sub-headings, a table, or bullets. Missing sections are left empty
+ * and listed in `missingSections`.
+ */
+export function parseDesignMarkdown(markdown: string): {
+  design: DesignArtifact;
+  missingSections: string[];
+} {
+  const sections = splitSections(markdown);
+  const text = (key: SectionKey) => joinText(sections.get(key) ?? []);
+  const list = (key: SectionKey) => parseList(sections.get(key) ?? []);
+
+  const design: DesignArtifact = {
+    title: text("title"),
+    summary: text("summary"),
+    assumptions: list("assumptions"),
+    architecture_overview: text("architecture_overview"),
+    components: parseComponents(sections.get("components") ?? []),
+    data_flow: text("data_flow"),
+    tradeoffs: parseTradeoffs(sections.get("tradeoffs") ?? []),
+    risks: parseRisks(sections.get("risks") ?? []),
+    open_questions: list("open_questions"),
+  };
+  if (sections.has("goals")) {
+    design.goals = list("goals");
+  }
+  if (sections.has("non_goals")) {
+    design.non_goals = list("non_goals");
+  }
+
+  return {
+    design,
+    missingSections: REQUIRED_SECTIONS.filter((key) => !sections.has(key)),
+  };
+}
+
+/**
+ * Load a design as a validated artifact, preferring the JSON file (tool
+ * path) and falling back to converting the markdown file (agent path)
+ *
+ * @throws If neither file exists or the design does not match the schema
+ */
+export function loadDesignArtifact(
+  designsDir: string,
+  designId: string,
+): DesignArtifact {
+  const jsonPath = path.join(designsDir, `${designId}.json`);
+  if (fs.existsSync(jsonPath)) {
+    return DesignArtifactSchema.parse(
+      JSON.parse(fs.readFileSync(jsonPath, "utf-8")),
+    );
+  }
+
+  const markdownPath = path.join(designsDir, `${designId}.md`);
+  if (!fs.existsSync(markdownPath)) {
+    throw new Error(`No design found for ${designId} in ${designsDir}`);
+  }
+  const { design, missingSections } = parseDesignMarkdown(
+    fs.readFileSync(markdownPath, "utf-8"),
+  );
+  if (missingSections.length > 0) {
+    throw new Error(
+      `${markdownPath} is missing sections: ${missingSections.join(", ")}`,
+    );
+  }
+  return DesignArtifactSchema.parse({
+    ...design,
+    title: design.title || designId,
+  });
+}
+
+/**
+ * Split a markdown design into artifact sections
+ *
+ * A heading of level 1 or 2 whose text names a section starts it; the first
+ * other level-1 heading is the title. Everything else, including deeper
+ * headings, belongs to the current section.
+ */
+function splitSections(markdown: string): Map<SectionKey, string[]> {
+  const sections = new Map<SectionKey, string[]>();
+  let current: string[] | null = null;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*\*\*Model\*\*:/i.test(line)) {
+      continue;
+    }
+    const heading = /^(#{1,2})\s+(.*)$/.exec(line.trim());
+    if (heading) {
+      const key = matchSection(heading[2]);
+      if (key) {
+        current = [];
+        sections.set(key, current);
+        continue;
+      }
+      if (heading[1] === "#" && !sections.has("title")) {
+        sections.set("title", [stripMarkdown(heading[2])]);
+        current = null;
+        continue;
+      }
+    }
+    current?.push(line);
+  }
+
+  return sections;
+}
+
+function matchSection(heading: string): SectionKey | null {
+  const normalized = normalizeLabel(heading);
+  const entry = Object.entries(SECTION_ALIASES).find(([, aliases]) =>
+    aliases.includes(normalized),
+  );
+  return (entry?.[0] as SectionKey | undefined) ?? null;
+}
+
+/**
+ * Lowercase a heading or label and drop markup, numbering and punctuation,
+ * e.g. "## 4. **Trade-offs:**" -> "trade offs"
+ */
+function normalizeLabel(text: string): string {
+  return stripMarkdown(text)
+    .toLowerCase()
+    .replace(/^\d+[.)]\s*/, "")
+    .replace(/[-:]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function stripMarkdown(text: string): string {
+  return text.replace(/\*\*|__|`/g, "").trim();
+}
+
+function joinText(lines: string[]): string {
+  return lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Read list items, or paragraphs when the section has no list
+ */
+function parseList(lines: string[]): string[] {
+  const items = parseBullets(lines).map((item) => item.text);
+  if (items.length > 0) {
+    return items;
+  }
+  return joinText(lines)
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0);
+}
+
+type Bullet = { text: string; children: string[] };
+
+/**
+ * Read top-level list items; more deeply indented items become children
+ */
+function parseBullets(lines: string[]): Bullet[] {
+  const bullets: Bullet[] = [];
+  let topIndent: number | null = null;
+
+  for (const line of lines) {
+    const match = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const indent = match[1].length;
+    const text = match[2].trim();
+    if (topIndent === null || indent <= topIndent) {
+      topIndent = indent;
+      bullets.push({ text, children: [] });
+    } else {
+      bullets[bullets.length - 1].children.push(stripMarkdown(text));
+    }
+  }
+
+  return bullets.map((bullet) => ({
+    ...bullet,
+    text: stripMarkdown(bullet.text),
+  }));
+}
+
+/**
+ * Split a section into ### sub-sections (heading plus body lines)
+ */
+function parseSubsections(
+  lines: string[],
+): { heading: string; body: string[] }[] {
+  const subsections: { heading: string; body: string[] }[] = [];
+  for (const line of lines) {
+    const heading = /^#{3,6}\s+(.*)$/.exec(line.trim());
+    if (heading) {
+      subsections.push({
+        heading: stripMarkdown(heading[1]).replace(/^\d+[.)]\s*/, ""),
+        body: [],
+      });
+    } else {
+      subsections[subsections.length - 1]?.body.push(line);
+    }
+  }
+  return subsections;
+}
+
+/**
+ * Read the first markdown table as rows keyed by normalized header
+ */
+function parseTable(lines: string[]): Record<string, string>[] {
+  const tableLines = lines
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("|"));
+  if (tableLines.length < 3) {
+    return [];
+  }
+
+  const cells = (line: string) =>
+    line
+      .replace(/^\|/, "")
+      .replace(/\|$/, "")
+      .split("|")
+      .map((cell) => stripMarkdown(cell));
+  const headers = cells(tableLines[0]).map(normalizeLabel);
+
+  return tableLines
+    .slice(2)
+    .map((line) =>
+      Object.fromEntries(cells(line).map((cell, i) => [headers[i], cell])),
+    );
+}
+
+function pickColumn(
+  row: Record<string, string>,
+  names: string[],
+): string | undefined {
+  const key = Object.keys(row).find((header) =>
+    names.some((name) => header === name || header.startsWith(`${name} `)),
+  );
+  return key ? row[key] : undefined;
+}
+
+/**
+ * Find a "**Label**: value" line and return its index and value
+ */
+function findLabelled(
+  lines: string[],
+  label: string,
+): { index: number; value: string } | undefined {
+  for (const [index, line] of lines.entries()) {
+    const match = /^\s*(?:[-*+]\s+)?([^:]+):\s*(.*)$/.exec(stripMarkdown(line));
+    if (match && normalizeLabel(match[1]) === label) {
+      return { index, value: match[2].trim() };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find a "**Label**: value" line and return the value
+ */
+function labelledValue(lines: string[], label: string): string | undefined {
+  return findLabelled(lines, label)?.value;
+}
+
+/**
+ * Find a "**Label**:" line and return the list items below it, or its value
+ * split into items when it is written inline
+ */
+function labelledList(lines: string[], label: string): string[] {
+  const labelled = findLabelled(lines, label);
+  if (!labelled) {
+    return [];
+  }
+  if (labelled.value) {
+    return splitListValue(labelled.value);
+  }
+
+  const items: string[] = [];
+  for (const line of lines.slice(labelled.index + 1)) {
+    const item = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      items.push(stripMarkdown(item[1]));
+    } else if (line.trim() !== "" || items.length > 0) {
+      break;
+    }
+  }
+  return items;
+}
+
+/**
+ * Split an inline list on ";", " vs " or "<br>"
+ *
+ * Commas and slashes are left alone, since they often appear inside an item
+ * (e.g. "HTTP/2" or "gRPC, with TLS").
+ */
+function splitListValue(value: string): string[] {
+  return value
+    .split(/;|\s+vs\.?\s+|<br\s*\/?>/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Split "Name: description" or "Name — description"
+ */
+function splitNamed(text: string): [string, string] {
+  const match = /^(.+?)\s*(?::|\s[—–-]\s)\s*(.*)$/.exec(text);
+  return match ? [match[1].trim(), match[2].trim()] : [text, ""];
+}
+
+/**
+ * Body text that is neither a list item nor a "Label: value" line
+ */
+function plainText(lines: string[], labels: string[]): string {
+  return joinText(
+    lines.filter((line) => {
+      if (/^\s*(?:[-*+]|\d+[.)])\s+/.test(line)) {
+        return false;
+      }
+      const label = /^\s*([^:]+):/.exec(stripMarkdown(line));
+      return !label || !labels.includes(normalizeLabel(label[1]));
+    }),
+  );
+}
+
+function parseComponents(lines: string[]): DesignArtifact["components"] {
+  const subsections = parseSubsections(lines);
+  if (subsections.length > 0) {
+    return subsections.map(({ heading, body }) => ({
+      name: heading,
+      description: plainText(body, ["responsibilities"]),
+      responsibilities: parseBullets(body).map((b) => b.text),
+    }));
+  }
+
+  const rows = parseTable(lines);
+  if (rows.length > 0) {
+    return rows.map((row) => ({
+      name: pickColumn(row, ["component", "name"]) ?? "",
+      description: pickColumn(row, ["description", "purpose", "role"]) ?? "",
+      responsibilities: (pickColumn(row, ["responsibilities"]) ?? "")
+        .split(/[;,]|<br\s*\/?>/)
+        .map((r) => r.trim())
+        .filter((r) => r.length > 0),
+    }));
+  }
+
+  return parseBullets(lines).map((bullet) => {
+    const [name, description] = splitNamed(bullet.text);
+    return { name, description, responsibilities: bullet.children };
+  });
+}
+
+function parseTradeoffs(lines: string[]): DesignArtifact["tradeoffs"] {
+  const subsections = parseSubsections(lines);
+  if (subsections.length > 0) {
+    return subsections.map(({ heading, body }) => ({
+      aspect: heading,
+      options: labelledList(body, "options"),
+      chosen: labelledValue(body, "chosen") ?? "",
+      rationale:
+        labelledValue(body, "rationale") ??
+        plainText(body, ["options", "chosen"]),
+    }));
+  }
+
+  const rows = parseTable(lines);
+  if (rows.length > 0) {
+    return rows.map((row) => ({
+      aspect: pickColumn(row, ["aspect", "decision", "tradeoff", "area"]) ?? "",
+      options: splitListValue(
+        pickColumn(row, ["options", "alternatives"]) ?? "",
+      ),
+      chosen: pickColumn(row, ["chosen", "choice"]) ?? "",
+      rationale: pickColumn(row, ["rationale", "reason", "why"]) ?? "",
+    }));
+  }
+
+  return parseBullets(lines).map((bullet) => {
+    const [aspect, rationale] = splitNamed(bullet.text);
+    return {
+      aspect,
+      options: [],
+      chosen: labelledValue(bullet.children, "chosen") ?? "",
+      rationale: rationale || bullet.children.join(" "),
+    };
+  });
+}
+
+function parseRisks(lines: string[]): DesignArtifact["risks"] {
+  const subsections = parseSubsections(lines);
+  if (subsections.length > 0) {
+    return subsections.map(({ heading, body }) => ({
+      risk: heading.replace(/\s*\((?:impact|severity)[^)]*\)\s*$/i, ""),
+      impact: parseImpact(heading, labelledValue(body, "impact")),
+      mitigation:
+        labelledValue(body, "mitigation") ?? plainText(body, ["impact"]),
+    }));
+  }
+
+  const rows = parseTable(lines);
+  if (rows.length > 0) {
+    return rows.map((row) => ({
+      risk: pickColumn(row, ["risk", "description"]) ?? "",
+      impact: parseImpact(pickColumn(row, ["impact", "severity"]) ?? ""),
+      mitigation: pickColumn(row, ["mitigation"]) ?? "",
+    }));
+  }
+
+  return parseBullets(lines).map((bullet) => {
+    const [risk, rest] = bullet.text.split(/\s*(?:[—–-]\s*)?mitigation:\s*/i);
+    return {
+      risk: risk.replace(/\s*\((?:impact|severity)[^)]*\)/i, "").trim(),
+      impact: parseImpact(bullet.text),
+      mitigation:
+        rest?.trim() ?? labelledValue(bullet.children, "mitigation") ?? "",
+    };
+  });
+}
+
+/**
+ * Read a risk's impact from "(Impact: high)", "Severity: low", ...;
+ * defaults to "medium"
+ */
+function parseImpact(
+  ...texts: (string | undefined)[]
+): "low" | "medium" | "high" {
+  for (const text of texts) {
+    const match =
+      /(?:impact|severity)\W*(low|medium|high)/i.exec(text ?? "") ??
+      /^\s*(low|medium|high)\b/i.exec(text ?? "");
+    if (match) {
+      return match[1].toLowerCase() as "low" | "medium" | "high";
+    }
+  }
+  return "medium";
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  extractJSON,
+  findJSONCandidates,
+  formatZodIssues,
+  parseLenientJSON,
+} from "./json-extraction";
+
+const AnswerSchema = z.object({
+  winner: z.string(),
+  score: z.number().min(0).max(10),
+});
+
+describe("findJSONCandidates", () => {
+  it("finds a fenced object with its line number", () => {
+    const text =
+      'Here is my answer:\n\n```json\n{"winner": "a", "score": 7}\n```';
+
+    expect(findJSONCandidates(text)).toEqual([
+      {
+        line: 4,
+        text: '{"winner": "a", "score": 7}',
+        value: { winner: "a", score: 7 },
+      },
+    ]);
+  });
+
+  it("balances nested brackets and ignores brackets in strings and comments", () => {
+    const text = `{
+  "note": "a } and a ] in a string",
+  // a { comment
+  "items": [{ "id": 1 }, { "id": 2 }] /* ] */
+}`;
+
+    const candidates = findJSONCandidates(text);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].text).toBe(text);
+    expect(candidates[0].value).toEqual({
+      note: "a } and a ] in a string",
+      items: [{ id: 1 }, { id: 2 }],
+    });
+  });
+
+  it("searches an invalid span for nested candidates", () => {
+    const text = 'The answer { see below: {"winner": "b", "score": 3} } ends';
+
+    const candidates = findJSONCandidates(text);
+
+    expect(candidates.map((c) => c.text)).toEqual([
+      '{ see below: {"winner": "b", "score": 3} }',
+      '{"winner": "b", "score": 3}',
+    ]);
+    expect(candidates[0].error).toBeDefined();
+    expect(candidates[1].value).toEqual({ winner: "b", score: 3 });
+  });
+
+  it("skips unbalanced brackets", () => {
+    expect(findJSONCandidates("Scores: [1, 2, 3 and {oops]")).toEqual([]);
+  });
+
+  it("counts lines past earlier candidates", () => {
+    const text = '{\n  "a": 1\n}\nthen\n[\n  2\n]';
+
+    expect(findJSONCandidates(text).map((c) => c.line)).toEqual([1, 5]);
+  });
+});
+
+describe("parseLenientJSON", () => {
+  it("accepts trailing commas and comments", () => {
+    expect(
+      parseLenientJSON(`{
+  "a": [1, 2,], // the list
+  /* the name */ "b": "x",
+}`),
+    ).toEqual({ a: [1, 2], b: "x" });
+  });
+
+  it("keeps commas, slashes and brackets inside strings", () => {
+    expect(parseLenientJSON('{"url": "http://x/,]", "b": 1,}')).toEqual({
+      url: "http://x/,]",
+      b: 1,
+    });
+  });
+
+  it("throws on text that is not JSON", () => {
+    expect(() => parseLenientJSON("{ winner: a }")).toThrow();
+  });
+});
+
+describe("extractJSON", () => {
+  it("extracts an object wrapped in prose", () => {
+    expect(
+      extractJSON(
+        'After comparing both designs, my verdict is {"winner": "a", "score": 8}. Thanks!',
+        AnswerSchema,
+      ),
+    ).toEqual({ winner: "a", score: 8 });
+  });
+
+  it("extracts a fenced object with trailing commas", () => {
+    expect(
+      extractJSON(
+        '```json\n{\n  "winner": "b",\n  "score": 6,\n}\n```',
+        AnswerSchema,
+      ),
+    ).toEqual({ winner: "b", score: 6 });
+  });
+
+  it("takes the last candidate that matches the schema", () => {
+    const text = `For example: {"winner": "example", "score": 1}
+
+Final answer: {"winner": "a", "score": 9}
+
+Reasoning used: {"considered": ["a", "b"]}`;
+
+    expect(extractJSON(text, AnswerSchema)).toEqual({
+      winner: "a",
+      score: 9,
+    });
+  });
+
+  it("lists every rejected candidate with its line and reason", () => {
+    const text = `{"winner": "a", "score": 42}
+{ winner: b }`;
+
+    let message = "";
+    try {
+      extractJSON(text, AnswerSchema);
+    } catch (err) {
+      message = (err as Error).message;
+    }
+
+    expect(message).toContain(
+      "No JSON in the response matches the required schema. Candidates found:",
+    );
+    const lines = message.split("\n");
+    expect(lines[1]).toMatch(
+      /^- Line 1 \(object `\{"winner": "a", "score": 42\}`\): does not match the required schema:$/,
+    );
+    expect(lines[2]).toMatch(/^ {2}- score: /);
+    expect(lines[3]).toMatch(
+      /^- Line 2 \(object `\{ winner: b \}`\): not valid JSON: /,
+    );
+  });
+
+  it("reports a response without any JSON", () => {
+    expect(() => extractJSON("I could not decide.", AnswerSchema)).toThrow(
+      "No JSON object or array found in the response\nText preview: I could not decide.",
+    );
+  });
+});
+
+describe("formatZodIssues", () => {
+  it("formats issue paths with indexes and nested keys", () => {
+    const schema = z.object({
+      risks: z.array(z.object({ impact: z.enum(["low", "high"]) })),
+    });
+    const result = schema.safeParse({
+      risks: [{ impact: "low" }, { impact: "huge" }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(formatZodIssues(result.error?.issues ?? [])).toMatch(
+      /^- risks\[1\]\.impact: /,
+    );
+  });
+
+  it("labels issues at the root", () => {
+    const result = z.object({}).safeParse("text");
+
+    expect(formatZodIssues(result.error?.issues ?? [])).toMatch(
+      /^- \(root\): /,
+    );
+  });
+});
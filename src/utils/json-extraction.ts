@@ -0,0 +1,254 @@
+import type { z } from "zod";
+
+/**
+ * A bracket-balanced `{...}` or `[...]` span found in model output
+ */
+export type JSONCandidate = {
+  /** 1-based line number where the candidate starts */
+  line: number;
+  text: string;
+  /** Parsed value, if the span is (lenient) JSON */
+  value?: unknown;
+  /** Why the span did not parse */
+  error?: string;
+};
+
+/**
+ * Find every JSON object or array in model output
+ *
+ * Spans are matched by balancing brackets, skipping string contents and
+ * comments. A span that parses is taken whole; one that does not is also
+ * searched for nested candidates, so prose such as "{ see below }" around the
+ * real answer does not hide it. Candidates are returned in text order.
+ */
+export function findJSONCandidates(text: string): JSONCandidate[] {
+  const candidates: JSONCandidate[] = [];
+  let line = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") {
+      line++;
+      continue;
+    }
+    if (char !== "{" && char !== "[") {
+      continue;
+    }
+
+    const end = findClosingBracket(text, i);
+    if (end === -1) {
+      continue;
+    }
+
+    const candidateText = text.slice(i, end + 1);
+    try {
+      candidates.push({
+        line,
+        text: candidateText,
+        value: parseLenientJSON(candidateText),
+      });
+      // Skip past the candidate, counting its lines
+      line += countNewlines(candidateText);
+      i = end;
+    } catch (err) {
+      candidates.push({
+        line,
+        text: candidateText,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Parse JSON that may contain `//` and `/* *\/` comments and trailing commas
+ */
+export function parseLenientJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return JSON.parse(removeTrailingCommas(removeComments(text)));
+  }
+}
+
+/**
+ * Extract the JSON answer from model output
+ *
+ * Every JSON candidate in the text is collected (see findJSONCandidates) and
+ * the last one that matches the schema wins, so example objects or reasoning
+ * printed before the answer are passed over.
+ *
+ * @throws Error listing each candidate and why it was rejected
+ */
+export function extractJSON<T>(text: string, schema: z.ZodType<T>): T {
+  const candidates = findJSONCandidates(text);
+  const rejections: string[] = [];
+
+  for (const candidate of [...candidates].reverse()) {
+    if (candidate.error !== undefined) {
+      rejections.unshift(
+        `- Line ${candidate.line} (${describeCandidate(candidate)}): not valid JSON: ${candidate.error}`,
+      );
+      continue;
+    }
+    const result = schema.safeParse(candidate.value);
+    if (result.success) {
+      return result.data;
+    }
+    rejections.unshift(
+      `- Line ${candidate.line} (${describeCandidate(candidate)}): does not match the required schema:\n${indent(formatZodIssues(result.error.issues))}`,
+    );
+  }
+
+  if (candidates.length === 0) {
+    const preview = text.substring(0, 200);
+    throw new Error(
+      `No JSON object or array found in the response\nText preview: ${preview}${text.length > 200 ? "..." : ""}`,
+    );
+  }
+  throw new Error(
+    `No JSON in the response matches the required schema. Candidates found:\n${rejections.join("\n")}`,
+  );
+}
+
+/**
+ * Format Zod issues one per line, e.g.
+ * "- risks[2].impact: Invalid option: expected one of ..."
+ */
+export function formatZodIssues(issues: z.core.$ZodIssue[]): string {
+  return issues
+    .map((issue) => {
+      const issuePath = issue.path
+        .map((key, i) =>
+          typeof key === "number"
+            ? `[${key}]`
+            : `${i > 0 ? "." : ""}${String(key)}`,
+        )
+        .join("");
+      return `- ${issuePath || "(root)"}: ${issue.message}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Find the bracket closing the one at `start`
+ *
+ * @returns The index of the closing bracket, or -1 if the brackets do not
+ *   balance
+ */
+function findClosingBracket(text: string, start: number): number {
+  const expected: string[] = [];
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      i = skipString(text, i);
+    } else if (char === "/" && text[i + 1] === "/") {
+      i = skipLineComment(text, i);
+    } else if (char === "/" && text[i + 1] === "*") {
+      i = skipBlockComment(text, i);
+    } else if (char === "{") {
+      expected.push("}");
+    } else if (char === "[") {
+      expected.push("]");
+    } else if (char === "}" || char === "]") {
+      if (expected.pop() !== char) {
+        return -1;
+      }
+      if (expected.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * @returns The index of the string's closing quote (or the end of the text)
+ */
+function skipString(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === '"') {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * @returns The index of the last character of the comment
+ */
+function skipLineComment(text: string, start: number): number {
+  const end = text.indexOf("\n", start);
+  return end === -1 ? text.length : end - 1;
+}
+
+/**
+ * @returns The index of the last character of the comment
+ */
+function skipBlockComment(text: string, start: number): number {
+  const end = text.indexOf("*/", start + 2);
+  return end === -1 ? text.length : end + 1;
+}
+
+function removeComments(text: string): string {
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') {
+      const end = skipString(text, i);
+      result += text.slice(i, end + 1);
+      i = end;
+    } else if (text[i] === "/" && text[i + 1] === "/") {
+      i = skipLineComment(text, i);
+    } else if (text[i] === "/" && text[i + 1] === "*") {
+      i = skipBlockComment(text, i);
+    } else {
+      result += text[i];
+    }
+  }
+  return result;
+}
+
+function removeTrailingCommas(text: string): string {
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') {
+      const end = skipString(text, i);
+      result += text.slice(i, end + 1);
+      i = end;
+    } else if (text[i] === ",") {
+      let next = i + 1;
+      while (next < text.length && /\s/.test(text[next])) {
+        next++;
+      }
+      if (text[next] !== "}" && text[next] !== "]") {
+        result += ",";
+      }
+    } else {
+      result += text[i];
+    }
+  }
+  return result;
+}
+
+function countNewlines(text: string): number {
+  return text.split("\n").length - 1;
+}
+
+function describeCandidate(candidate: JSONCandidate): string {
+  const kind = candidate.text.startsWith("{") ? "object" : "array";
+  const preview = candidate.text.replace(/\s+/g, " ").substring(0, 60);
+  return `${kind} \`${preview}${candidate.text.length > 60 ? "..." : ""}\``;
+}
+
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `  ${line}`)
+    .join("\n");
+}
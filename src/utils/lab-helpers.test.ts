@@ -0,0 +1,237 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createRunId,
+  findLatestRound,
+  getRoundDir,
+  isPathWithin,
+  listLabs,
+  loadRequirements,
+  resolveLabPath,
+} from "./lab-helpers";
+
+const BASE_DIR = ".design-lab";
+
+let projectDir: string;
+
+/**
+ * Create a lab with a task.json recording its topic and creation time
+ */
+function createLab(id: string, topic: string, created: string): string {
+  const labDir = path.join(projectDir, BASE_DIR, id);
+  fs.mkdirSync(labDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(labDir, "task.json"),
+    JSON.stringify({
+      run_id: id,
+      requirements: `Build ${topic}`,
+      topic,
+      created,
+    }),
+  );
+  return labDir;
+}
+
+beforeEach(() => {
+  projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "lab-helpers-"));
+});
+
+afterEach(() => {
+  fs.rmSync(projectDir, { recursive: true, force: true });
+});
+
+describe("createRunId", () => {
+  it("starts with the UTC date and time and ends with a short hash", () => {
+    const id = createRunId("cache", new Date("2026-01-02T14:30:05.000Z"));
+
+    expect(id).toMatch(/^2026-01-02-143005-[0-9a-f]{6}$/);
+  });
+
+  it("keeps runs started in the same second apart", () => {
+    const date = new Date("2026-01-02T14:30:05.000Z");
+
+    expect(createRunId("cache", date)).not.toBe(createRunId("cache", date));
+  });
+});
+
+describe("listLabs", () => {
+  it("returns nothing without a base directory", () => {
+    expect(listLabs(projectDir, BASE_DIR)).toEqual([]);
+  });
+
+  it("orders labs by creation time, newest first", () => {
+    createLab("b-lab", "second", "2026-01-02T00:00:00.000Z");
+    createLab("a-lab", "third", "2026-01-03T00:00:00.000Z");
+    createLab("c-lab", "first", "2026-01-01T00:00:00.000Z");
+
+    expect(listLabs(projectDir, BASE_DIR).map((lab) => lab.topic)).toEqual([
+      "third",
+      "second",
+      "first",
+    ]);
+  });
+
+  it("prefers the manifest's metadata over task.json", () => {
+    const labDir = createLab("lab", "cache", "2026-01-01T00:00:00.000Z");
+    fs.writeFileSync(
+      path.join(labDir, "lab.json"),
+      JSON.stringify({
+        version: 1,
+        topic: "renamed",
+        created: "2026-02-01T00:00:00.000Z",
+        updated: "2026-02-01T00:00:00.000Z",
+        phases: [],
+      }),
+    );
+
+    expect(listLabs(projectDir, BASE_DIR)).toEqual([
+      {
+        dir: labDir,
+        id: "lab",
+        topic: "renamed",
+        created: "2026-02-01T00:00:00.000Z",
+      },
+    ]);
+  });
+});
+
+describe("resolveLabPath", () => {
+  let cacheOld: string;
+  let cacheNew: string;
+  let apiGateway: string;
+  let apiClient: string;
+
+  beforeEach(() => {
+    cacheOld = createLab(
+      "2026-01-01-000000-aaaaaa",
+      "cache",
+      "2026-01-01T00:00:00.000Z",
+    );
+    cacheNew = createLab(
+      "2026-01-02-000000-bbbbbb",
+      "cache",
+      "2026-01-02T00:00:00.000Z",
+    );
+    apiGateway = createLab(
+      "2026-01-03-000000-cccccc",
+      "api-gateway",
+      "2026-01-03T00:00:00.000Z",
+    );
+    apiClient = createLab(
+      "2026-02-01-000000-dddddd",
+      "api-client",
+      "2026-02-01T00:00:00.000Z",
+    );
+  });
+
+  const resolve = (selector?: string) =>
+    resolveLabPath(projectDir, BASE_DIR, selector);
+
+  it("picks the newest lab by default and for latest", () => {
+    expect(resolve()).toEqual({ labDir: apiClient });
+    expect(resolve("latest")).toEqual({ labDir: apiClient });
+  });
+
+  it("picks the lab before the latest for previous", () => {
+    expect(resolve("previous")).toEqual({ labDir: apiGateway });
+  });
+
+  it("matches a run ID exactly", () => {
+    expect(resolve("2026-01-01-000000-aaaaaa")).toEqual({ labDir: cacheOld });
+  });
+
+  it("matches a normalized topic exactly, picking the newest lab", () => {
+    expect(resolve("cache")).toEqual({ labDir: cacheNew });
+    expect(resolve("API Gateway")).toEqual({ labDir: apiGateway });
+  });
+
+  it("matches part of a topic or run ID when only one lab has it", () => {
+    expect(resolve("gateway")).toEqual({ labDir: apiGateway });
+    expect(resolve("dddddd")).toEqual({ labDir: apiClient });
+  });
+
+  it("rejects part of a topic or run ID that several labs have", () => {
+    expect(resolve("api")).toEqual({
+      labDir: null,
+      error:
+        "ambiguous selector: 2026-02-01-000000-dddddd, 2026-01-03-000000-cccccc",
+    });
+    expect(resolve("2026-01")).toMatchObject({
+      labDir: null,
+      error: expect.stringMatching(/^ambiguous selector: /),
+    });
+  });
+
+  it("accepts the path of a lab under the base directory", () => {
+    expect(resolve(`${BASE_DIR}/2026-01-01-000000-aaaaaa`)).toEqual({
+      labDir: cacheOld,
+    });
+    expect(resolve(cacheOld)).toEqual({ labDir: cacheOld });
+  });
+
+  it("rejects paths outside the base directory or without lab files", () => {
+    const outside = path.join(projectDir, "src");
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(outside, "task.json"), "{}");
+    fs.mkdirSync(path.join(projectDir, BASE_DIR, "stray"));
+
+    expect(resolve("src")).toEqual({ labDir: null });
+    expect(resolve(outside)).toEqual({ labDir: null });
+    expect(resolve(`${BASE_DIR}/stray`)).toEqual({ labDir: null });
+    expect(resolve(BASE_DIR)).toEqual({ labDir: null });
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(resolve("search")).toEqual({ labDir: null });
+  });
+});
+
+describe("round directories", () => {
+  it("keeps round 1 at the top level and nests later rounds", () => {
+    expect(getRoundDir("/lab", "designs", 1)).toBe(path.join("/lab/designs"));
+    expect(getRoundDir("/lab", "designs", 3)).toBe(
+      path.join("/lab/designs/round-3"),
+    );
+  });
+
+  it("finds the latest round with designs", () => {
+    const labDir = path.join(projectDir, "lab");
+    expect(findLatestRound(labDir)).toBe(1);
+
+    for (const round of ["round-2", "round-10", "notes"]) {
+      fs.mkdirSync(path.join(labDir, "designs", round), { recursive: true });
+    }
+    expect(findLatestRound(labDir)).toBe(10);
+  });
+});
+
+describe("isPathWithin", () => {
+  it("accepts the directory itself and paths inside it", () => {
+    expect(isPathWithin("/a/b", "/a/b")).toBe(true);
+    expect(isPathWithin("/a/b/c.md", "/a/b")).toBe(true);
+  });
+
+  it("rejects siblings that share a prefix and parents", () => {
+    expect(isPathWithin("/a/bc", "/a/b")).toBe(false);
+    expect(isPathWithin("/a", "/a/b")).toBe(false);
+  });
+});
+
+describe("loadRequirements", () => {
+  it("reads the requirements from task.json", () => {
+    const labDir = createLab("lab", "cache", "2026-01-01T00:00:00.000Z");
+
+    expect(loadRequirements(labDir)).toBe("Build cache");
+  });
+
+  it("returns null for a missing or unparseable task.json", () => {
+    const labDir = path.join(projectDir, "lab");
+    fs.mkdirSync(labDir);
+    expect(loadRequirements(labDir)).toBeNull();
+
+    fs.writeFileSync(path.join(labDir, "task.json"), "{ not json");
+    expect(loadRequirements(labDir)).toBeNull();
+  });
+});
@@ -1,5 +1,65 @@
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import {
+  MANIFEST_FILE,
+  inferLabMetadata,
+  readLabManifest,
+} from "./lab-manifest";
+
+/**
+ * A lab directory with the metadata used to order and select it
+ */
+export type LabRun = {
+  dir: string;
+  /** Directory name: the run ID, or YYYY-MM-DD-topic for older labs */
+  id: string;
+  topic?: string;
+  /** ISO timestamp */
+  created: string;
+};
+
+/**
+ * Create a run ID for a new lab, e.g. 2025-01-02-143005-9f3a1c
+ *
+ * The date and time (UTC) come first so IDs sort by creation; the short hash
+ * keeps runs started in the same second apart. The topic is recorded in
+ * task.json and lab.json rather than in the ID.
+ */
+export function createRunId(topic: string, date: Date = new Date()): string {
+  const [day, time] = date.toISOString().split("T");
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${date.toISOString()}\n${topic}\n${crypto.randomUUID()}`)
+    .digest("hex")
+    .substring(0, 6);
+  return `${day}-${time.substring(0, 8).replace(/:/g, "")}-${hash}`;
+}
+
+/**
+ * List the design labs, newest first
+ *
+ * Labs are ordered by the creation time in lab.json, falling back to
+ * task.json and then to the directory's creation time (agent-mode labs).
+ *
+ * @param projectDir - The project root directory
+ * @param baseDir - The base output directory (e.g., ".design-lab")
+ */
+export function listLabs(projectDir: string, baseDir: string): LabRun[] {
+  const labBaseDir = path.join(projectDir, baseDir);
+  if (!fs.existsSync(labBaseDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(labBaseDir)
+    .map((entry) => path.join(labBaseDir, entry))
+    .filter((dir) => fs.statSync(dir).isDirectory())
+    .map(readLabRun)
+    .sort(
+      (a, b) => b.created.localeCompare(a.created) || b.id.localeCompare(a.id),
+    );
+}
 
 /**
  * Find the most recent design lab directory
@@ -12,20 +72,153 @@ export function findMostRecentLab(
   projectDir: string,
   baseDir: string,
 ): string | null {
-  const labBaseDir = path.join(projectDir, baseDir);
-  if (!fs.existsSync(labBaseDir)) {
-    return null;
+  return listLabs(projectDir, baseDir)[0]?.dir ?? null;
+}
+
+/**
+ * Outcome of resolving a lab_path argument: the lab directory, or null with
+ * an error when the selector matches several labs
+ */
+export type LabSelection =
+  { labDir: string; error?: undefined } | { labDir: null; error?: string };
+
+/**
+ * Resolve a lab_path argument to a lab directory
+ *
+ * The selector may be "latest" (the default), "previous" (the lab before the
+ * latest), a run ID, a topic, or a path (relative to the project). A topic
+ * must match exactly (after normalization), picking the newest lab with that
+ * topic, or be part of exactly one lab's topic or run ID; a selector that is
+ * part of several is ambiguous. Run IDs and topics are tried first; a path
+ * must be a lab under the base directory, i.e. contain task.json or lab.json.
+ *
+ * @returns The lab directory, or null (with an error if ambiguous) if no
+ *   single lab matches
+ */
+export function resolveLabPath(
+  projectDir: string,
+  baseDir: string,
+  selector?: string,
+): LabSelection {
+  if (!selector || selector === "latest") {
+    return { labDir: findMostRecentLab(projectDir, baseDir) };
+  }
+  if (selector === "previous") {
+    return { labDir: listLabs(projectDir, baseDir)[1]?.dir ?? null };
   }
 
-  const labs = fs
-    .readdirSync(labBaseDir)
-    .filter((d) => fs.statSync(path.join(labBaseDir, d)).isDirectory())
-    .sort()
-    .reverse();
+  const labs = listLabs(projectDir, baseDir);
+  const query = normalizeTopic(selector);
+  const match =
+    labs.find((lab) => lab.id === selector) ??
+    labs.find((lab) => lab.topic && normalizeTopic(lab.topic) === query);
+  if (match) {
+    return { labDir: match.dir };
+  }
+
+  const partialMatches = query
+    ? labs.filter(
+        (lab) =>
+          normalizeTopic(lab.topic ?? "").includes(query) ||
+          normalizeTopic(lab.id).includes(query),
+      )
+    : [];
+  if (partialMatches.length === 1) {
+    return { labDir: partialMatches[0].dir };
+  }
+
+  const labPath = path.resolve(projectDir, selector);
+  const isLab =
+    isPathWithin(labPath, path.resolve(projectDir, baseDir)) &&
+    (fs.existsSync(path.join(labPath, "task.json")) ||
+      fs.existsSync(path.join(labPath, MANIFEST_FILE)));
+  if (isLab) {
+    return { labDir: labPath };
+  }
+
+  return partialMatches.length > 1
+    ? {
+        labDir: null,
+        error: `ambiguous selector: ${partialMatches.map((lab) => lab.id).join(", ")}`,
+      }
+    : { labDir: null };
+}
+
+/**
+ * Resolve a lab subdirectory (designs, blind, reviews, scores, comparisons,
+ * results) for a refinement round
+ *
+ * Round 1 uses the top-level directory so labs from before refinement keep
+ * working; later rounds are nested, e.g. designs/round-2/.
+ */
+export function getRoundDir(
+  labDir: string,
+  subdir: string,
+  round: number,
+): string {
+  return round <= 1
+    ? path.join(labDir, subdir)
+    : path.join(labDir, subdir, `round-${round}`);
+}
+
+/**
+ * Find the latest refinement round that has designs
+ *
+ * @returns The highest round number with a designs/round-N/ directory, or 1
+ */
+export function findLatestRound(labDir: string): number {
+  const designsDir = path.join(labDir, "designs");
+  if (!fs.existsSync(designsDir)) {
+    return 1;
+  }
 
-  if (labs.length === 0) {
+  return fs
+    .readdirSync(designsDir)
+    .map((entry) => /^round-(\d+)$/.exec(entry))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]))
+    .reduce((latest, round) => Math.max(latest, round), 1);
+}
+
+/**
+ * Check whether a path is a directory or inside it (both absolute)
+ */
+export function isPathWithin(target: string, dir: string): boolean {
+  const relative = path.relative(dir, target);
+  return (
+    relative === "" ||
+    (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Load the original requirements, if the lab recorded them (null if task.json
+ * is missing or can't be parsed)
+ */
+export function loadRequirements(labDir: string): string | null {
+  const taskPath = path.join(labDir, "task.json");
+  if (!fs.existsSync(taskPath)) {
+    return null;
+  }
+  try {
+    const taskData = JSON.parse(fs.readFileSync(taskPath, "utf-8"));
+    return typeof taskData?.requirements === "string"
+      ? taskData.requirements
+      : null;
+  } catch {
     return null;
   }
+}
 
-  return path.join(labBaseDir, labs[0]);
+function readLabRun(dir: string): LabRun {
+  const { topic, created } = readLabManifest(dir) ?? inferLabMetadata(dir);
+  return { dir, id: path.basename(dir), topic, created };
+}
+
+/**
+ * Lowercase and replace runs of other characters with "-", so "API Gateway"
+ * matches the topic "api-gateway"
+ */
+function normalizeTopic(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-");
 }
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  MANIFEST_FILE,
+  finishPhaseRun,
+  findUnfinishedPhaseRun,
+  readLabManifest,
+  startPhaseRun,
+  updateModelRun,
+} from "./lab-manifest";
+
+const MODELS = ["openai/gpt-5", "anthropic/claude-4", "google/gemini-3"];
+
+let labDir: string;
+
+beforeEach(() => {
+  labDir = fs.mkdtempSync(path.join(os.tmpdir(), "lab-manifest-"));
+});
+
+afterEach(() => {
+  fs.rmSync(labDir, { recursive: true, force: true });
+});
+
+/**
+ * Run a phase in which the first model completes and the others fail
+ */
+function runPartially(models: string[]) {
+  startPhaseRun(labDir, "review", 1, models);
+  for (const model of models) {
+    updateModelRun(labDir, "review", 1, model, { status: "running" });
+  }
+  updateModelRun(labDir, "review", 1, models[0], {
+    status: "complete",
+    output: "reviews/a.md",
+  });
+  for (const model of models.slice(1)) {
+    updateModelRun(labDir, "review", 1, model, {
+      status: "failed",
+      error: "Timed out",
+    });
+  }
+  return finishPhaseRun(labDir, "review", 1);
+}
+
+describe("startPhaseRun", () => {
+  it("starts a fresh run with every model pending", () => {
+    const { models, resumed } = startPhaseRun(
+      labDir,
+      "generate",
+      1,
+      MODELS,
+      "cache",
+    );
+
+    expect(models).toEqual(MODELS);
+    expect(resumed).toBe(false);
+    const manifest = readLabManifest(labDir);
+    expect(manifest?.topic).toBe("cache");
+    expect(manifest?.phases).toHaveLength(1);
+    expect(manifest?.phases[0]).toMatchObject({
+      phase: "generate",
+      round: 1,
+      status: "running",
+    });
+    expect(manifest?.phases[0].models[MODELS[0]]).toEqual({
+      status: "pending",
+      attempts: 0,
+    });
+  });
+
+  it("resumes an unfinished run, skipping completed models", () => {
+    expect(runPartially(MODELS)).toBe("incomplete");
+    const firstRun = readLabManifest(labDir)?.phases[0];
+
+    const { models, resumed } = startPhaseRun(labDir, "review", 1, MODELS);
+
+    expect(resumed).toBe(true);
+    expect(models).toEqual(MODELS.slice(1));
+    const manifest = readLabManifest(labDir);
+    expect(manifest?.phases).toHaveLength(1);
+    const run = manifest?.phases[0];
+    expect(run?.status).toBe("running");
+    expect(run?.started_at).toBe(firstRun?.started_at);
+    // The completed model keeps its result; the others carry their attempts
+    expect(run?.models[MODELS[0]]).toMatchObject({
+      status: "complete",
+      attempts: 1,
+      output: "reviews/a.md",
+    });
+    expect(run?.models[MODELS[1]]).toEqual({ status: "pending", attempts: 1 });
+
+    updateModelRun(labDir, "review", 1, MODELS[1], { status: "running" });
+    expect(readLabManifest(labDir)?.phases[0].models[MODELS[1]]).toMatchObject({
+      status: "running",
+      attempts: 2,
+    });
+  });
+
+  it("starts over after a complete run", () => {
+    startPhaseRun(labDir, "review", 1, MODELS);
+    for (const model of MODELS) {
+      updateModelRun(labDir, "review", 1, model, { status: "complete" });
+    }
+    expect(finishPhaseRun(labDir, "review", 1)).toBe("complete");
+
+    const { models, resumed } = startPhaseRun(labDir, "review", 1, MODELS);
+
+    expect(resumed).toBe(false);
+    expect(models).toEqual(MODELS);
+    expect(readLabManifest(labDir)?.phases).toHaveLength(1);
+  });
+
+  it("keeps runs of other phases and rounds", () => {
+    runPartially(MODELS);
+    startPhaseRun(labDir, "review", 2, MODELS);
+
+    const manifest = readLabManifest(labDir);
+    expect(manifest?.phases.map((p) => [p.round, p.status])).toEqual([
+      [1, "incomplete"],
+      [2, "running"],
+    ]);
+    expect(findUnfinishedPhaseRun(manifest, "review")?.round).toBe(2);
+  });
+
+  it("takes the topic and creation time from task.json", () => {
+    fs.writeFileSync(
+      path.join(labDir, "task.json"),
+      JSON.stringify({ topic: "cache", created: "2026-01-01T00:00:00.000Z" }),
+    );
+
+    startPhaseRun(labDir, "generate", 1, MODELS);
+
+    expect(readLabManifest(labDir)).toMatchObject({
+      topic: "cache",
+      created: "2026-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("finishPhaseRun", () => {
+  it("marks a stopped run cancelled with the reason", () => {
+    startPhaseRun(labDir, "generate", 1, MODELS);
+
+    expect(finishPhaseRun(labDir, "generate", 1, "cancelled")).toBe(
+      "cancelled",
+    );
+    expect(readLabManifest(labDir)?.phases[0]).toMatchObject({
+      status: "cancelled",
+      stop_reason: "cancelled",
+    });
+  });
+});
+
+describe("readLabManifest", () => {
+  it("returns null when there is no manifest", () => {
+    expect(readLabManifest(labDir)).toBeNull();
+  });
+
+  it.each([
+    ["unparseable", "{ not json"],
+    ["truncated", '{"version": 1, "phases": ['],
+    ["without phases", '{"version": 1}'],
+    ["not an object", "[]"],
+  ])("treats an %s manifest as missing", (_, content) => {
+    fs.writeFileSync(path.join(labDir, MANIFEST_FILE), content);
+
+    expect(readLabManifest(labDir)).toBeNull();
+  });
+
+  it("replaces an invalid manifest when a phase starts", () => {
+    fs.writeFileSync(path.join(labDir, MANIFEST_FILE), "{ not json");
+
+    const { resumed } = startPhaseRun(labDir, "generate", 1, MODELS);
+
+    expect(resumed).toBe(false);
+    expect(readLabManifest(labDir)?.phases).toHaveLength(1);
+    expect(fs.readdirSync(labDir)).toEqual([MANIFEST_FILE]);
+  });
+
+  it("ignores updates for a phase that was never started", () => {
+    updateModelRun(labDir, "review", 1, MODELS[0], { status: "running" });
+
+    expect(readLabManifest(labDir)).toBeNull();
+    expect(finishPhaseRun(labDir, "review", 1)).toBe("incomplete");
+  });
+});
@@ -0,0 +1,289 @@
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "./logger";
+
+/**
+ * File in the lab directory that records the state of each phase
+ */
+export const MANIFEST_FILE = "lab.json";
+
+/**
+ * Lab phases run by the tools
+ */
+export type LabPhase = "generate" | "review" | "refine";
+
+/**
+ * State of one model's session in a phase
+ *
+ * "pending" models are waiting for a concurrency slot.
+ */
+export type ModelRunStatus =
+  "pending" | "running" | "complete" | "failed" | "cancelled";
+
+export type ModelRun = {
+  status: ModelRunStatus;
+  /** Sessions started for this model in this phase, across resumes */
+  attempts: number;
+  /** Why the last attempt failed or stopped */
+  error?: string;
+  /** Output file, relative to the lab directory */
+  output?: string;
+  started_at?: string;
+  finished_at?: string;
+};
+
+/**
+ * State of a phase: "incomplete" phases finished with failed models, and
+ * "cancelled" ones were stopped (by the user or the budget). A phase left
+ * "running" was interrupted, e.g. by a crash.
+ */
+export type PhaseStatus = "running" | "complete" | "incomplete" | "cancelled";
+
+export type PhaseRun = {
+  phase: LabPhase;
+  round: number;
+  status: PhaseStatus;
+  started_at: string;
+  finished_at?: string;
+  /** Why a cancelled phase stopped */
+  stop_reason?: string;
+  /** Keyed by model ID */
+  models: Record<string, ModelRun>;
+};
+
+/**
+ * Contents of lab.json
+ */
+export type LabManifest = {
+  version: 1;
+  topic?: string;
+  created: string;
+  updated: string;
+  /** In the order they were started */
+  phases: PhaseRun[];
+};
+
+/**
+ * Read the lab's manifest, if it has one (labs from agent mode or from
+ * before the manifest don't)
+ *
+ * A manifest that can't be parsed is treated as missing, so the next phase
+ * starts a fresh one.
+ */
+export function readLabManifest(labDir: string): LabManifest | null {
+  const manifestPath = path.join(labDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  const manifest = readJSONFile(manifestPath);
+  if (
+    typeof manifest !== "object" ||
+    manifest === null ||
+    !Array.isArray((manifest as LabManifest).phases)
+  ) {
+    logger.warn({ manifestPath }, "Ignoring invalid lab manifest");
+    return null;
+  }
+  return manifest as LabManifest;
+}
+
+/**
+ * Find the run of a phase and round in the manifest
+ */
+export function findPhaseRun(
+  manifest: LabManifest | null,
+  phase: LabPhase,
+  round: number,
+): PhaseRun | undefined {
+  return manifest?.phases.find((p) => p.phase === phase && p.round === round);
+}
+
+/**
+ * Find the latest run of a phase that did not complete, which the next call
+ * of its tool resumes
+ */
+export function findUnfinishedPhaseRun(
+  manifest: LabManifest | null,
+  phase: LabPhase,
+): PhaseRun | undefined {
+  return manifest?.phases.findLast(
+    (p) => p.phase === phase && p.status !== "complete",
+  );
+}
+
+/**
+ * Start (or resume) a phase
+ *
+ * An unfinished run of the same phase and round is resumed: only its models
+ * that have not completed are run again. Otherwise a fresh run replaces any
+ * earlier one.
+ *
+ * @returns The models to run and whether the phase was resumed
+ */
+export function startPhaseRun(
+  labDir: string,
+  phase: LabPhase,
+  round: number,
+  models: string[],
+  topic?: string,
+): { models: string[]; resumed: boolean } {
+  const now = new Date().toISOString();
+  const lab = inferLabMetadata(labDir);
+  const manifest: LabManifest = readLabManifest(labDir) ?? {
+    version: 1,
+    topic: topic ?? lab.topic,
+    created: lab.created,
+    updated: now,
+    phases: [],
+  };
+
+  const previous = findPhaseRun(manifest, phase, round);
+  const resumed = previous !== undefined && previous.status !== "complete";
+  const toRun = resumed
+    ? models.filter((m) => previous.models[m]?.status !== "complete")
+    : models;
+
+  const run: PhaseRun = {
+    phase,
+    round,
+    status: "running",
+    started_at: resumed ? previous.started_at : now,
+    models: {
+      ...(resumed ? previous.models : {}),
+      ...Object.fromEntries(
+        toRun.map((m): [string, ModelRun] => [
+          m,
+          {
+            status: "pending",
+            attempts: (resumed ? previous.models[m]?.attempts : 0) ?? 0,
+          },
+        ]),
+      ),
+    },
+  };
+  manifest.phases = [...manifest.phases.filter((p) => p !== previous), run];
+  writeLabManifest(labDir, manifest);
+
+  return { models: toRun, resumed };
+}
+
+/**
+ * Record a model's progress in a phase
+ *
+ * "running" counts an attempt; "complete", "failed" and "cancelled" set the
+ * finish time.
+ */
+export function updateModelRun(
+  labDir: string,
+  phase: LabPhase,
+  round: number,
+  model: string,
+  update: { status: ModelRunStatus; error?: string; output?: string },
+): void {
+  const manifest = readLabManifest(labDir);
+  const run = findPhaseRun(manifest, phase, round);
+  if (!manifest || !run) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const previous = run.models[model] ?? { status: "pending", attempts: 0 };
+  run.models[model] =
+    update.status === "running"
+      ? {
+          status: "running",
+          attempts: previous.attempts + 1,
+          started_at: now,
+        }
+      : update.status === "pending"
+        ? { ...previous, status: "pending" }
+        : {
+            ...previous,
+            status: update.status,
+            error: update.error,
+            output: update.output,
+            finished_at: now,
+          };
+  writeLabManifest(labDir, manifest);
+}
+
+/**
+ * Finish a phase: "cancelled" if it was stopped, otherwise "complete" if all
+ * its models completed and "incomplete" if not
+ */
+export function finishPhaseRun(
+  labDir: string,
+  phase: LabPhase,
+  round: number,
+  stopReason?: string,
+): PhaseStatus {
+  const manifest = readLabManifest(labDir);
+  const run = findPhaseRun(manifest, phase, round);
+  if (!manifest || !run) {
+    return "incomplete";
+  }
+
+  run.status = stopReason
+    ? "cancelled"
+    : Object.values(run.models).every((m) => m.status === "complete")
+      ? "complete"
+      : "incomplete";
+  run.finished_at = new Date().toISOString();
+  run.stop_reason = stopReason;
+  writeLabManifest(labDir, manifest);
+  return run.status;
+}
+
+/**
+ * Get the topic and creation time of a lab without a manifest, from its
+ * task.json or, for agent-mode labs, the directory itself
+ */
+export function inferLabMetadata(labDir: string): {
+  topic?: string;
+  created: string;
+} {
+  const taskPath = path.join(labDir, "task.json");
+  const task = fs.existsSync(taskPath) ? readJSONFile(taskPath) : undefined;
+  const taskData: Record<string, unknown> =
+    typeof task === "object" && task !== null
+      ? (task as Record<string, unknown>)
+      : {};
+  const stat = fs.statSync(labDir);
+  // Some file systems do not record a creation time
+  const dirCreated = stat.birthtimeMs > 0 ? stat.birthtime : stat.mtime;
+
+  return {
+    topic: typeof taskData.topic === "string" ? taskData.topic : undefined,
+    created:
+      typeof taskData.created === "string"
+        ? taskData.created
+        : dirCreated.toISOString(),
+  };
+}
+
+/**
+ * Write the manifest to a temporary file and rename it into place, so a
+ * crash mid-write never leaves a truncated lab.json
+ */
+function writeLabManifest(labDir: string, manifest: LabManifest): void {
+  manifest.updated = new Date().toISOString();
+  const manifestPath = path.join(labDir, MANIFEST_FILE);
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
+  fs.renameSync(tempPath, manifestPath);
+}
+
+/**
+ * Parse a JSON file, logging and returning undefined if it is invalid
+ */
+function readJSONFile(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    logger.warn(
+      { filePath, error: err instanceof Error ? err.message : String(err) },
+      "Could not parse JSON file",
+    );
+    return undefined;
+  }
+}
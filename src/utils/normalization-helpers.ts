@@ -0,0 +1,122 @@
+import type { Score, ScoreNormalization, ScoringConfig } from "../config";
+import { getScoreDimensionNames } from "./scoring-helpers";
+
+/**
+ * Normalize scores per reviewer so harsh and generous reviewers count equally
+ *
+ * Each dimension is normalized independently across the designs a reviewer
+ * scored, and the result is mapped back onto the scoring scale so averages,
+ * tables and thresholds keep their meaning:
+ * - "zscore": (x - reviewer mean) / reviewer SD, re-expressed on the pooled
+ *   mean and SD of all reviewers
+ * - "minmax": reviewer's lowest..highest score stretched to scale min..max
+ * - "rank": reviewer's rank order (ties share the average rank) spread evenly
+ *   from scale min (worst) to scale max (best)
+ *
+ * A reviewer who gave every design the same score maps to the pooled mean
+ * ("zscore") or the scale midpoint ("minmax", "rank").
+ */
+export function normalizeScores(
+  scores: Score[],
+  strategy: ScoreNormalization,
+  scoring: ScoringConfig,
+): Score[] {
+  if (strategy === "none") {
+    return scores;
+  }
+
+  const normalized = scores.map((s) => ({ ...s, scores: { ...s.scores } }));
+  const reviewers = [...new Set(scores.map((s) => s.reviewer_model))];
+  const { min, max } = scoring.scale;
+  const midpoint = (min + max) / 2;
+
+  for (const dim of getScoreDimensionNames(scoring)) {
+    const pooled = scores
+      .map((s) => s.scores[dim])
+      .filter((v): v is number => typeof v === "number");
+    const pooledMean = mean(pooled);
+    const pooledSd = standardDeviation(pooled);
+
+    for (const reviewer of reviewers) {
+      const reviewerScores = normalized.filter(
+        (s) =>
+          s.reviewer_model === reviewer && typeof s.scores[dim] === "number",
+      );
+      const values = reviewerScores.map((s) => s.scores[dim]);
+      if (values.length === 0) {
+        continue;
+      }
+
+      let mapped: number[];
+      if (strategy === "zscore") {
+        const reviewerMean = mean(values);
+        const reviewerSd = standardDeviation(values);
+        mapped = values.map((v) =>
+          reviewerSd > 0
+            ? pooledMean + ((v - reviewerMean) / reviewerSd) * pooledSd
+            : pooledMean,
+        );
+      } else if (strategy === "minmax") {
+        const low = Math.min(...values);
+        const high = Math.max(...values);
+        mapped = values.map((v) =>
+          high > low
+            ? min + ((v - low) / (high - low)) * (max - min)
+            : midpoint,
+        );
+      } else {
+        const ranks = averageRanks(values);
+        mapped = ranks.map((r) =>
+          values.length > 1
+            ? min + ((r - 1) / (values.length - 1)) * (max - min)
+            : midpoint,
+        );
+      }
+
+      reviewerScores.forEach((s, i) => {
+        s.scores[dim] = mapped[i];
+      });
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Rank values ascending (1 = lowest), giving ties the average of their ranks
+ */
+export function averageRanks(values: number[]): number[] {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) {
+      j++;
+    }
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      ranks[order[k].index] = rank;
+    }
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Population standard deviation
+ */
+function standardDeviation(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(
+    values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / values.length,
+  );
+}
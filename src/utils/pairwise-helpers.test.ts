@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { PairwiseComparison } from "../config";
+import {
+  BASE_RATING,
+  TIE,
+  buildComparisonPairs,
+  computeEloRatings,
+  computePairwiseRecords,
+  fitBradleyTerry,
+} from "./pairwise-helpers";
+
+function comparison(
+  first: string,
+  second: string,
+  winner: string,
+): PairwiseComparison {
+  return {
+    comparison_id: `${first}-${second}`,
+    first,
+    second,
+    winner,
+    rationale: "",
+    reviewer_model: "judge",
+  };
+}
+
+describe("buildComparisonPairs", () => {
+  it("builds every pair in both orders, forward pairs first", () => {
+    expect(buildComparisonPairs(["a", "b", "c"])).toEqual([
+      { comparison_id: "pair-1", first: "a", second: "b" },
+      { comparison_id: "pair-2", first: "a", second: "c" },
+      { comparison_id: "pair-3", first: "b", second: "c" },
+      { comparison_id: "pair-4", first: "b", second: "a" },
+      { comparison_id: "pair-5", first: "c", second: "a" },
+      { comparison_id: "pair-6", first: "c", second: "b" },
+    ]);
+  });
+
+  it("has nothing to compare for a single design", () => {
+    expect(buildComparisonPairs(["a"])).toEqual([]);
+  });
+});
+
+describe("computePairwiseRecords", () => {
+  it("counts wins, losses and ties, skipping unknown designs", () => {
+    expect(
+      computePairwiseRecords(
+        [
+          comparison("a", "b", "a"),
+          comparison("b", "a", "a"),
+          comparison("a", "b", TIE),
+          comparison("a", "x", "x"),
+        ],
+        ["a", "b"],
+      ),
+    ).toEqual({
+      a: { wins: 2, losses: 0, ties: 1 },
+      b: { wins: 0, losses: 2, ties: 1 },
+    });
+  });
+});
+
+describe("fitBradleyTerry", () => {
+  it("rates every design at the base rating without comparisons", () => {
+    expect(fitBradleyTerry([], ["a", "b", "c"])).toEqual({
+      a: BASE_RATING,
+      b: BASE_RATING,
+      c: BASE_RATING,
+    });
+  });
+
+  it("rates designs with split results equally", () => {
+    const ratings = fitBradleyTerry(
+      [comparison("a", "b", "a"), comparison("b", "a", "b")],
+      ["a", "b"],
+    );
+    expect(ratings.a).toBeCloseTo(BASE_RATING);
+    expect(ratings.b).toBeCloseTo(BASE_RATING);
+  });
+
+  it("keeps an undefeated design finite", () => {
+    // 3 wins plus the virtual tie: 3.5 to 0.5, so 7:1 odds
+    const ratings = fitBradleyTerry(
+      [
+        comparison("a", "b", "a"),
+        comparison("b", "a", "a"),
+        comparison("a", "b", "a"),
+      ],
+      ["a", "b"],
+    );
+    const gap = 200 * Math.log10(7);
+    expect(ratings.a).toBeCloseTo(BASE_RATING + gap);
+    expect(ratings.b).toBeCloseTo(BASE_RATING - gap);
+  });
+
+  it("orders designs by their results", () => {
+    const ratings = fitBradleyTerry(
+      [
+        comparison("a", "b", "a"),
+        comparison("b", "c", "b"),
+        comparison("c", "a", "a"),
+        comparison("c", "b", TIE),
+      ],
+      ["a", "b", "c"],
+    );
+    expect(ratings.a).toBeGreaterThan(ratings.b);
+    expect(ratings.b).toBeGreaterThan(ratings.c);
+  });
+});
+
+describe("computeEloRatings", () => {
+  it("moves ratings by the K-factor times the surprise", () => {
+    const ratings = computeEloRatings(
+      [comparison("a", "b", "a")],
+      ["a", "b"],
+      32,
+    );
+    expect(ratings).toEqual({ a: BASE_RATING + 16, b: BASE_RATING - 16 });
+  });
+
+  it("leaves equal ratings unchanged on a tie", () => {
+    expect(
+      computeEloRatings([comparison("a", "b", TIE)], ["a", "b"], 32),
+    ).toEqual({ a: BASE_RATING, b: BASE_RATING });
+  });
+
+  it("replays comparisons in order and skips unknown designs", () => {
+    const ratings = computeEloRatings(
+      [
+        comparison("a", "b", "a"),
+        comparison("b", "a", "b"),
+        comparison("a", "x", "x"),
+      ],
+      ["a", "b"],
+      32,
+    );
+    // The upset win is worth more than the expected one
+    expect(ratings.b).toBeGreaterThan(BASE_RATING);
+    expect(ratings.a + ratings.b).toBeCloseTo(2 * BASE_RATING);
+    expect(ratings).not.toHaveProperty("x");
+  });
+});
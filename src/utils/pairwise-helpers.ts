@@ -0,0 +1,193 @@
+import type { PairwiseComparison } from "../config";
+
+/**
+ * Rating every design starts from, and the center of the Bradley–Terry scale
+ */
+export const BASE_RATING = 1500;
+
+/**
+ * Winner value for a comparison with no preferred design
+ */
+export const TIE = "tie";
+
+/**
+ * An ordered pair of designs to compare
+ */
+export type ComparisonPair = {
+  comparison_id: string;
+  first: string;
+  second: string;
+};
+
+/**
+ * Win/loss/tie record for a design across all comparisons
+ */
+export type PairwiseRecord = {
+  wins: number;
+  losses: number;
+  ties: number;
+};
+
+/**
+ * Build every pair of designs in both orders, so each design appears first
+ * and second equally often and position bias cancels out
+ */
+export function buildComparisonPairs(designIds: string[]): ComparisonPair[] {
+  const forward: ComparisonPair[] = [];
+  const swapped: ComparisonPair[] = [];
+
+  for (let i = 0; i < designIds.length; i++) {
+    for (let j = i + 1; j < designIds.length; j++) {
+      forward.push({
+        comparison_id: "",
+        first: designIds[i],
+        second: designIds[j],
+      });
+      swapped.push({
+        comparison_id: "",
+        first: designIds[j],
+        second: designIds[i],
+      });
+    }
+  }
+
+  // Swapped pairs come after all forward pairs so the two orders of the same
+  // pair are never adjacent
+  return [...forward, ...swapped].map((pair, i) => ({
+    ...pair,
+    comparison_id: `pair-${i + 1}`,
+  }));
+}
+
+/**
+ * Count wins, losses and ties per design
+ */
+export function computePairwiseRecords(
+  comparisons: PairwiseComparison[],
+  designIds: string[],
+): Record<string, PairwiseRecord> {
+  const records: Record<string, PairwiseRecord> = Object.fromEntries(
+    designIds.map((id) => [id, { wins: 0, losses: 0, ties: 0 }]),
+  );
+
+  for (const c of comparisons) {
+    if (!records[c.first] || !records[c.second]) {
+      continue;
+    }
+    if (c.winner === TIE) {
+      records[c.first].ties++;
+      records[c.second].ties++;
+    } else {
+      const loser = c.winner === c.first ? c.second : c.first;
+      records[c.winner].wins++;
+      records[loser].losses++;
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Fit Bradley–Terry strengths with the MM algorithm (Hunter, 2004)
+ *
+ * Ties count as half a win for each side, and every pair of designs gets one
+ * virtual tie so undefeated or winless designs still have finite strengths.
+ * Strengths are reported on an Elo-like scale: BASE_RATING + 400 * log10 of
+ * the strength relative to the geometric mean, so a 400-point gap means
+ * 10:1 odds of winning.
+ */
+export function fitBradleyTerry(
+  comparisons: PairwiseComparison[],
+  designIds: string[],
+  maxIterations = 1000,
+  tolerance = 1e-9,
+): Record<string, number> {
+  const n = designIds.length;
+  const index = new Map(designIds.map((id, i) => [id, i]));
+  const wins = new Array<number>(n).fill(0);
+  const games: number[][] = designIds.map(() => new Array<number>(n).fill(0));
+
+  // Virtual tie between every pair
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      wins[i] += 0.5;
+      wins[j] += 0.5;
+      games[i][j]++;
+      games[j][i]++;
+    }
+  }
+
+  for (const c of comparisons) {
+    const i = index.get(c.first);
+    const j = index.get(c.second);
+    if (i === undefined || j === undefined) {
+      continue;
+    }
+    games[i][j]++;
+    games[j][i]++;
+    if (c.winner === TIE) {
+      wins[i] += 0.5;
+      wins[j] += 0.5;
+    } else {
+      wins[c.winner === c.first ? i : j]++;
+    }
+  }
+
+  let strengths = new Array<number>(n).fill(1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = strengths.map((p_i, i) => {
+      let denominator = 0;
+      for (let j = 0; j < n; j++) {
+        if (j !== i && games[i][j] > 0) {
+          denominator += games[i][j] / (p_i + strengths[j]);
+        }
+      }
+      return denominator > 0 ? wins[i] / denominator : p_i;
+    });
+
+    // Normalize to a geometric mean of 1 so the scale stays anchored
+    const logMean = next.reduce((a, p) => a + Math.log(p), 0) / n;
+    const normalized = next.map((p) => p / Math.exp(logMean));
+    const delta = Math.max(
+      ...normalized.map((p, i) => Math.abs(p - strengths[i])),
+    );
+    strengths = normalized;
+    if (delta < tolerance) {
+      break;
+    }
+  }
+
+  return Object.fromEntries(
+    designIds.map((id, i) => [
+      id,
+      BASE_RATING + 400 * Math.log10(strengths[i]),
+    ]),
+  );
+}
+
+/**
+ * Compute Elo ratings by replaying comparisons in order
+ */
+export function computeEloRatings(
+  comparisons: PairwiseComparison[],
+  designIds: string[],
+  kFactor: number,
+): Record<string, number> {
+  const ratings: Record<string, number> = Object.fromEntries(
+    designIds.map((id) => [id, BASE_RATING]),
+  );
+
+  for (const c of comparisons) {
+    if (ratings[c.first] === undefined || ratings[c.second] === undefined) {
+      continue;
+    }
+    const expectedFirst =
+      1 / (1 + Math.pow(10, (ratings[c.second] - ratings[c.first]) / 400));
+    const actualFirst = c.winner === TIE ? 0.5 : c.winner === c.first ? 1 : 0;
+    const change = kFactor * (actualFirst - expectedFirst);
+    ratings[c.first] += change;
+    ratings[c.second] -= change;
+  }
+
+  return ratings;
+}
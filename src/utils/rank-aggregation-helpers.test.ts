@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import type { Score } from "../config";
+import {
+  bordaCounts,
+  computeMethodRanks,
+  schulzeWins,
+} from "./rank-aggregation-helpers";
+
+function score(reviewer: string, design: string, overall: number): Score {
+  return {
+    design_id: design,
+    reviewer_model: reviewer,
+    scores: { overall },
+    justification: "",
+    strengths: [],
+    weaknesses: [],
+    missing_considerations: [],
+  };
+}
+
+/**
+ * Two reviewers narrowly prefer "a"; one strongly prefers "b", which wins on
+ * the mean but loses head to head
+ */
+const majorityScores = [
+  score("r1", "a", 10),
+  score("r1", "b", 9),
+  score("r1", "c", 0),
+  score("r2", "a", 10),
+  score("r2", "b", 9),
+  score("r2", "c", 0),
+  score("r3", "a", 0),
+  score("r3", "b", 10),
+  score("r3", "c", 10),
+];
+
+/**
+ * Each design beats the next on two of three ballots
+ */
+const cyclicScores = [
+  score("r1", "a", 3),
+  score("r1", "b", 2),
+  score("r1", "c", 1),
+  score("r2", "b", 3),
+  score("r2", "c", 2),
+  score("r2", "a", 1),
+  score("r3", "c", 3),
+  score("r3", "a", 2),
+  score("r3", "b", 1),
+];
+
+describe("bordaCounts", () => {
+  it("awards a point per design scored lower and half per tie", () => {
+    expect(
+      bordaCounts(
+        [
+          score("r1", "a", 9),
+          score("r1", "b", 5),
+          score("r1", "c", 1),
+          score("r2", "a", 5),
+          score("r2", "b", 5),
+          score("r2", "c", 9),
+        ],
+        ["a", "b", "c"],
+      ),
+    ).toEqual([2.5, 1.5, 2]);
+  });
+
+  it("counts partial ballots over the designs they scored", () => {
+    expect(
+      bordaCounts([score("r1", "a", 3), score("r1", "c", 7)], ["a", "b", "c"]),
+    ).toEqual([0, 0, 1]);
+  });
+});
+
+describe("schulzeWins", () => {
+  it("gives a Condorcet winner a win over every other design", () => {
+    expect(schulzeWins(majorityScores, ["a", "b", "c"])).toEqual([2, 1, 0]);
+  });
+
+  it("gives no wins in a balanced cycle", () => {
+    expect(schulzeWins(cyclicScores, ["a", "b", "c"])).toEqual([0, 0, 0]);
+  });
+
+  it("resolves a cycle by its strongest paths", () => {
+    // a > b on 4 of 5 ballots, b > c and c > a on 3: a's strongest path to
+    // b beats b's (3, via c), while the paths between c and the others tie
+    const scores = [
+      ...["r1", "r2"].flatMap((r) => [
+        score(r, "a", 3),
+        score(r, "b", 2),
+        score(r, "c", 1),
+      ]),
+      score("r3", "c", 3),
+      score("r3", "a", 2),
+      score("r3", "b", 1),
+      score("r4", "c", 3),
+      score("r4", "a", 2),
+      score("r4", "b", 1),
+      score("r5", "b", 3),
+      score("r5", "c", 2),
+      score("r5", "a", 1),
+    ];
+    expect(schulzeWins(scores, ["a", "b", "c"])).toEqual([1, 0, 0]);
+  });
+});
+
+describe("computeMethodRanks", () => {
+  it("ranks designs under every method", () => {
+    expect(computeMethodRanks(majorityScores)).toEqual({
+      mean: { a: 2, b: 1, c: 3 },
+      median: { a: 1, b: 2, c: 3 },
+      borda: { a: 1, b: 2, c: 3 },
+      schulze: { a: 1, b: 2, c: 3 },
+    });
+  });
+
+  it("gives designs with equal standing the same rank", () => {
+    expect(computeMethodRanks(cyclicScores).schulze).toEqual({
+      a: 1,
+      b: 1,
+      c: 1,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import type { AggregationMethod, Score } from "../config";
+import { averageRanks } from "./normalization-helpers";
+
+/**
+ * Rank designs from reviewers' overall scores under every aggregation method
+ *
+ * Ranks use standard competition ranking: designs with equal standing share
+ * a rank and the next rank is skipped (1, 1, 3).
+ */
+export function computeMethodRanks(
+  scores: Score[],
+): Record<AggregationMethod, Record<string, number>> {
+  const designs = [...new Set(scores.map((s) => s.design_id))];
+  const overallByDesign = (design: string) =>
+    scores.filter((s) => s.design_id === design).map((s) => s.scores.overall);
+
+  return {
+    mean: rankByValue(
+      designs,
+      designs.map((d) => mean(overallByDesign(d))),
+    ),
+    median: rankByValue(
+      designs,
+      designs.map((d) => median(overallByDesign(d))),
+    ),
+    borda: rankByValue(designs, bordaCounts(scores, designs)),
+    schulze: rankByValue(designs, schulzeWins(scores, designs)),
+  };
+}
+
+/**
+ * Borda count with partial ballots: each reviewer awards a design one point
+ * for every design it scored lower and half a point for every tie
+ */
+export function bordaCounts(scores: Score[], designs: string[]): number[] {
+  const points = new Map(designs.map((d) => [d, 0]));
+  for (const ballot of groupByReviewer(scores)) {
+    // averageRanks is 1-based ascending, so rank - 1 counts designs below,
+    // with ties splitting the points
+    averageRanks(ballot.map((s) => s.scores.overall)).forEach((rank, i) => {
+      const design = ballot[i].design_id;
+      points.set(design, (points.get(design) ?? 0) + rank - 1);
+    });
+  }
+  return designs.map((d) => points.get(d) ?? 0);
+}
+
+/**
+ * Schulze method: count how many other designs each design beats along the
+ * strongest path of pairwise reviewer preferences
+ */
+export function schulzeWins(scores: Score[], designs: string[]): number[] {
+  const n = designs.length;
+
+  // preferences[i][j]: reviewers who scored design i higher than design j
+  const preferences = designs.map(() => new Array<number>(n).fill(0));
+  for (const ballot of groupByReviewer(scores)) {
+    for (const a of ballot) {
+      for (const b of ballot) {
+        if (a.scores.overall > b.scores.overall) {
+          preferences[designs.indexOf(a.design_id)][
+            designs.indexOf(b.design_id)
+          ]++;
+        }
+      }
+    }
+  }
+
+  // Widest paths (Floyd–Warshall variant)
+  const strength = designs.map((_, i) =>
+    designs.map((_, j) =>
+      i !== j && preferences[i][j] > preferences[j][i] ? preferences[i][j] : 0,
+    ),
+  );
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      if (i === k) {
+        continue;
+      }
+      for (let j = 0; j < n; j++) {
+        if (j === i || j === k) {
+          continue;
+        }
+        strength[i][j] = Math.max(
+          strength[i][j],
+          Math.min(strength[i][k], strength[k][j]),
+        );
+      }
+    }
+  }
+
+  return designs.map(
+    (_, i) =>
+      designs.filter((_, j) => i !== j && strength[i][j] > strength[j][i])
+        .length,
+  );
+}
+
+function rankByValue(
+  designs: string[],
+  values: number[],
+): Record<string, number> {
+  return Object.fromEntries(
+    designs.map((design, i) => [
+      design,
+      1 + values.filter((v) => v > values[i]).length,
+    ]),
+  );
+}
+
+function groupByReviewer(scores: Score[]): Score[][] {
+  const reviewers = [...new Set(scores.map((s) => s.reviewer_model))];
+  return reviewers.map((r) => scores.filter((s) => s.reviewer_model === r));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
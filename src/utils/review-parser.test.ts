@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import type { ScoringConfig } from "../config";
+import { parseReviewScoresTable } from "./review-parser";
+
+const scoring: ScoringConfig = {
+  scale: { min: 0, max: 10 },
+  dimensions: [
+    { name: "clarity", description: "Clear?", weight: 40 },
+    { name: "risk_awareness", description: "Risks covered?", weight: 60 },
+  ],
+};
+
+const review = `# Review
+
+## Executive Summary
+
+design-A is simpler; design-B scales further.
+
+## Comparison Table
+
+| Design | Approach |
+|--------|----------|
+| design-A | Monolith |
+| design-B | Services |
+
+## Strengths
+
+### design-A
+
+- Few moving parts
+- Easy to operate
+
+### design-B
+
+- Scales horizontally
+
+## Weaknesses
+
+- design-A has a single point of failure
+- **design-B** needs a service mesh
+- Both skip capacity planning
+
+## Missing Considerations
+
+- design-B: no data retention policy
+
+## Scores Table
+
+| Design | **Clarity (40%)** | Risk Awareness (60%) | Weighted Total |
+|--------|---|---|---|
+| design-A | 8/10 | **7.5** | 9.9 |
+| **design-B** | 6 | 9 | 7.8 |
+
+| Note | Value |
+|------|-------|
+| Reviewer | anonymous |
+`;
+
+describe("parseReviewScoresTable", () => {
+  it("parses the last table whose first column is Design", () => {
+    const { rows, errors } = parseReviewScoresTable(review, scoring);
+
+    expect(errors).toEqual([]);
+    expect(rows.map((r) => [r.design_id, r.line])).toEqual([
+      ["design-A", 39],
+      ["design-B", 40],
+    ]);
+    expect(rows[0].row).toBe("| design-A | 8/10 | **7.5** | 9.9 |");
+  });
+
+  it("recomputes the overall score from the configured weights", () => {
+    const { rows } = parseReviewScoresTable(review, scoring);
+
+    // The reviewer's 9.9 is replaced by 8 * 0.4 + 7.5 * 0.6
+    expect(rows[0].scores).toEqual({
+      clarity: 8,
+      risk_awareness: 7.5,
+      overall: 7.7,
+    });
+    expect(rows[1].scores.overall).toBeCloseTo(7.8);
+  });
+
+  it("computes the overall when the table has no total column", () => {
+    const markdown = `| Design | Clarity | risk_awareness |
+|---|---|---|
+| design-A | 5 | 10 |`;
+
+    const { rows, errors } = parseReviewScoresTable(markdown, scoring);
+
+    expect(errors).toEqual([]);
+    expect(rows[0].scores.overall).toBe(8);
+  });
+
+  it("collects each design's bullets by heading or mention", () => {
+    const { rows } = parseReviewScoresTable(review, scoring);
+
+    expect(rows[0]).toMatchObject({
+      strengths: ["Few moving parts", "Easy to operate"],
+      weaknesses: ["design-A has a single point of failure"],
+      missing_considerations: [],
+    });
+    expect(rows[1]).toMatchObject({
+      strengths: ["Scales horizontally"],
+      weaknesses: ["design-B needs a service mesh"],
+      missing_considerations: ["design-B: no data retention policy"],
+    });
+  });
+
+  it("reports a review without a Scores Table", () => {
+    expect(parseReviewScoresTable("# Review\n\nNo table.", scoring)).toEqual({
+      rows: [],
+      errors: [{ reason: 'No Scores Table with a "Design" column found' }],
+    });
+  });
+
+  it("reports missing dimension columns", () => {
+    const markdown = `Intro
+
+| Design | Clarity | Overall |
+|---|---|---|
+| design-A | 8 | 8 |`;
+
+    expect(parseReviewScoresTable(markdown, scoring)).toEqual({
+      rows: [],
+      errors: [
+        {
+          line: 3,
+          row: "| Design | Clarity | Overall |",
+          reason: "Scores Table is missing columns: Risk Awareness",
+        },
+      ],
+    });
+  });
+
+  it("reports rows that don't parse and keeps the others", () => {
+    const markdown = `| Design | Clarity | Risk Awareness |
+|---|---|---|
+| design-A | 8 | 7 |
+| design-B | good | |
+| | 5 | 5 |`;
+
+    const { rows, errors } = parseReviewScoresTable(markdown, scoring);
+
+    expect(rows.map((r) => r.design_id)).toEqual(["design-A"]);
+    expect(errors).toEqual([
+      {
+        line: 4,
+        row: "| design-B | good | |",
+        reason:
+          'Clarity: "good" is not a number; Risk Awareness: "" is not a number',
+      },
+      { line: 5, row: "| | 5 | 5 |", reason: "missing design ID" },
+    ]);
+  });
+
+  it("reports a Scores Table without rows", () => {
+    const markdown = `| Design | Clarity | Risk Awareness |
+|---|---|---|`;
+
+    expect(parseReviewScoresTable(markdown, scoring).errors).toEqual([
+      { line: 1, reason: "Scores Table has no rows" },
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+import type { ScoringConfig } from "../config";
+import {
+  computeWeightedOverall,
+  computeWeightedTotal,
+  getDimensionLabel,
+  OVERALL_DIMENSION,
+} from "./scoring-helpers";
+
+/**
+ * Scores for one design parsed from a review's Scores Table
+ */
+export type ParsedScoreRow = {
+  /** 1-based line number of the row in the review file */
+  line: number;
+  row: string;
+  design_id: string;
+  scores: Record<string, number>;
+  strengths: string[];
+  weaknesses: string[];
+  missing_considerations: string[];
+};
+
+/**
+ * A table row (or the whole table) that could not be parsed
+ */
+export type ReviewParseError = {
+  /** 1-based line number in the review file, if the error is about a row */
+  line?: number;
+  row?: string;
+  reason: string;
+};
+
+/**
+ * Parse the Scores Table at the bottom of a Markdown review
+ *
+ * Expects the format from formatScoresTableExample: a "Design" column, one
+ * column per rubric dimension (by label or name, optionally followed by the
+ * weight such as "(20%)"), and a "Weighted Total" or "Overall" column. The
+ * overall is recomputed from the dimension weights; the reviewer's total is
+ * only kept for rows missing a dimension. The last table whose first column is
+ * "Design" is used.
+ *
+ * Strengths and weaknesses are taken from bullets in the review's
+ * "Strengths" / "Weaknesses" sections that sit under a heading naming the
+ * design or mention it; "Missing Considerations" is read the same way.
+ */
+export function parseReviewScoresTable(
+  markdown: string,
+  scoring: ScoringConfig,
+): { rows: ParsedScoreRow[]; errors: ReviewParseError[] } {
+  const lines = markdown.split("\n");
+  const table = findScoresTable(lines);
+  if (!table) {
+    return {
+      rows: [],
+      errors: [{ reason: 'No Scores Table with a "Design" column found' }],
+    };
+  }
+
+  const headers = splitRow(lines[table.start]);
+  const columns = headers.map((header) => matchColumn(header, scoring));
+  const missingDimensions = scoring.dimensions
+    .filter((d) => !columns.includes(d.name))
+    .map((d) => getDimensionLabel(d));
+  if (missingDimensions.length > 0) {
+    return {
+      rows: [],
+      errors: [
+        {
+          line: table.start + 1,
+          row: lines[table.start].trim(),
+          reason: `Scores Table is missing columns: ${missingDimensions.join(", ")}`,
+        },
+      ],
+    };
+  }
+
+  const rows: ParsedScoreRow[] = [];
+  const errors: ReviewParseError[] = [];
+  // Skip the header and the |---|---| separator
+  for (let i = table.start + 2; i < table.end; i++) {
+    const cells = splitRow(lines[i]);
+    const designId = stripMarkdown(cells[0] ?? "");
+    const scores: Record<string, number> = {};
+    const problems: string[] = [];
+
+    columns.forEach((column, c) => {
+      if (c === 0 || !column) {
+        return;
+      }
+      const value = parseScore(cells[c] ?? "");
+      if (value === null) {
+        problems.push(`${headers[c]}: "${cells[c] ?? ""}" is not a number`);
+        return;
+      }
+      scores[column] = value;
+    });
+
+    if (!designId) {
+      problems.push("missing design ID");
+    }
+    if (problems.length > 0) {
+      errors.push({
+        line: i + 1,
+        row: lines[i].trim(),
+        reason: problems.join("; "),
+      });
+      continue;
+    }
+
+    // Rank by the configured weights, not the reviewer's own arithmetic
+    scores[OVERALL_DIMENSION] =
+      computeWeightedOverall(scores, scoring) ??
+      scores[OVERALL_DIMENSION] ??
+      computeWeightedTotal(scores, scoring);
+
+    rows.push({
+      line: i + 1,
+      row: lines[i].trim(),
+      design_id: designId,
+      scores,
+      strengths: collectDesignBullets(lines, "strengths", designId),
+      weaknesses: collectDesignBullets(lines, "weaknesses", designId),
+      missing_considerations: collectDesignBullets(
+        lines,
+        "missing considerations",
+        designId,
+      ),
+    });
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: table.start + 1, reason: "Scores Table has no rows" });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Find the last table whose first header cell is "Design"
+ *
+ * @returns Line range [start, end) of the table, or null
+ */
+function findScoresTable(
+  lines: string[],
+): { start: number; end: number } | null {
+  let found: { start: number; end: number } | null = null;
+  let i = 0;
+  while (i < lines.length) {
+    if (!isTableLine(lines[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    while (i < lines.length && isTableLine(lines[i])) {
+      i++;
+    }
+    const firstHeader = stripMarkdown(splitRow(lines[start])[0] ?? "");
+    if (firstHeader.toLowerCase() === "design" && i - start >= 2) {
+      found = { start, end: i };
+    }
+  }
+  return found;
+}
+
+function isTableLine(line: string): boolean {
+  return line.trim().startsWith("|");
+}
+
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Map a header cell to a dimension name, "overall", or null (ignored column)
+ */
+function matchColumn(header: string, scoring: ScoringConfig): string | null {
+  const normalized = normalizeHeader(header);
+  if (
+    normalized.startsWith("weighted total") ||
+    normalized === OVERALL_DIMENSION ||
+    normalized === "total"
+  ) {
+    return OVERALL_DIMENSION;
+  }
+  const dimension = scoring.dimensions.find(
+    (d) =>
+      normalizeHeader(getDimensionLabel(d)) === normalized ||
+      normalizeHeader(d.name) === normalized,
+  );
+  return dimension?.name ?? null;
+}
+
+/**
+ * Lowercase a header and drop markup, weights and scales, e.g.
+ * "**Clarity (20%)**" -> "clarity", "Weighted Total (0-10)" -> "weighted total"
+ */
+function normalizeHeader(header: string): string {
+  return stripMarkdown(header)
+    .replace(/\([^)]*\)/g, "")
+    .replace(/_/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function stripMarkdown(text: string): string {
+  return text.replace(/[*_`]/g, "").trim();
+}
+
+/**
+ * Parse a score cell such as "8", "**7.5**" or "8/10"
+ */
+function parseScore(cell: string): number | null {
+  const match = /^-?\d+(?:\.\d+)?/.exec(stripMarkdown(cell));
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * Collect bullets about a design from a review section
+ *
+ * A bullet counts if it sits under a sub-heading naming the design, or
+ * mentions the design itself.
+ */
+function collectDesignBullets(
+  lines: string[],
+  section: string,
+  designId: string,
+): string[] {
+  const bullets: string[] = [];
+  const design = designId.toLowerCase();
+  let sectionLevel = 0;
+  let underDesignHeading = false;
+
+  for (const line of lines) {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line.trim());
+    if (heading) {
+      const level = heading[1].length;
+      const title = stripMarkdown(heading[2]).toLowerCase();
+      if (sectionLevel > 0 && level <= sectionLevel) {
+        sectionLevel = 0;
+      }
+      if (sectionLevel === 0) {
+        if (title.replace(/^\d+\.\s*/, "") === section) {
+          sectionLevel = level;
+          underDesignHeading = false;
+        }
+        continue;
+      }
+      underDesignHeading = title.includes(design);
+      continue;
+    }
+
+    if (sectionLevel === 0) {
+      continue;
+    }
+    const bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+    if (!bullet) {
+      continue;
+    }
+    const text = bullet[1].trim();
+    if (underDesignHeading || text.toLowerCase().includes(design)) {
+      bullets.push(stripMarkdown(text));
+    }
+  }
+
+  return bullets;
+}
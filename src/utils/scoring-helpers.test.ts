@@ -0,0 +1,67 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ScoringConfig } from "../config";
+import { readScoreFiles } from "./scoring-helpers";
+
+const scoring: ScoringConfig = {
+  scale: { min: 0, max: 10 },
+  dimensions: [
+    { name: "clarity", description: "Clear?", weight: 40 },
+    { name: "cost", description: "Cheap to run?", weight: 60 },
+  ],
+};
+
+const score = {
+  design_id: "design-A",
+  reviewer_model: "openai/gpt-5",
+  scores: { clarity: 8, cost: 6, overall: 7 },
+  justification: "Clear but costly.",
+  strengths: ["Simple"],
+  weaknesses: ["Expensive"],
+  missing_considerations: [],
+};
+
+let scoresDir: string;
+
+beforeEach(() => {
+  scoresDir = fs.mkdtempSync(path.join(os.tmpdir(), "scores-"));
+});
+
+afterEach(() => {
+  fs.rmSync(scoresDir, { recursive: true, force: true });
+});
+
+describe("readScoreFiles", () => {
+  it("reads score files with custom rubric dimensions", () => {
+    fs.writeFileSync(path.join(scoresDir, "a.json"), JSON.stringify(score));
+    fs.writeFileSync(path.join(scoresDir, "notes.md"), "Not a score");
+
+    expect(readScoreFiles(scoresDir, scoring)).toEqual([score]);
+  });
+
+  it("skips files that aren't JSON or don't match the rubric", () => {
+    fs.writeFileSync(path.join(scoresDir, "a.json"), JSON.stringify(score));
+    fs.writeFileSync(path.join(scoresDir, "b.json"), "{ not json");
+    fs.writeFileSync(
+      path.join(scoresDir, "c.json"),
+      JSON.stringify({ ...score, scores: { clarity: 8, overall: 8 } }),
+    );
+    fs.writeFileSync(
+      path.join(scoresDir, "d.json"),
+      JSON.stringify({
+        ...score,
+        scores: { clarity: 8, cost: 11, overall: 9 },
+      }),
+    );
+
+    expect(readScoreFiles(scoresDir, scoring)).toEqual([score]);
+  });
+
+  it("returns nothing for a missing directory", () => {
+    expect(readScoreFiles(path.join(scoresDir, "round-2"), scoring)).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  createScoreSchema,
+  type Score,
+  type ScoringConfig,
+  type ScoringDimension,
+} from "../config";
+import { formatZodIssues } from "./json-extraction";
+import { logger } from "./logger";
+
+/**
+ * Score key every reviewer provides in addition to the rubric dimensions
+ */
+export const OVERALL_DIMENSION = "overall";
+
+/**
+ * Get every score key for a rubric, in display order, ending with "overall"
+ */
+export function getScoreDimensionNames(scoring: ScoringConfig): string[] {
+  return [...scoring.dimensions.map((d) => d.name), OVERALL_DIMENSION];
+}
+
+/**
+ * Get the display label for a dimension
+ * e.g., "time_to_market" -> "Time To Market"
+ */
+export function getDimensionLabel(dimension: ScoringDimension): string {
+  if (dimension.label) {
+    return dimension.label;
+  }
+  return dimension.name
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Format the scale as a range string, e.g. "0-10"
+ */
+export function formatScale(scoring: ScoringConfig): string {
+  return `${scoring.scale.min}-${scoring.scale.max}`;
+}
+
+/**
+ * Format the rubric as a markdown bullet list of criteria for prompts
+ */
+export function formatScoringCriteria(scoring: ScoringConfig): string {
+  return [
+    ...scoring.dimensions.map(
+      (d) => `- **${getDimensionLabel(d)}** (${d.weight}%): ${d.description}`,
+    ),
+    `- **Overall**: The weighted total of the scores above (rankings use the weighted total)`,
+  ].join("\n");
+}
+
+/**
+ * Format the markdown scores table header (and one example row) that
+ * reviewers place at the bottom of their reports
+ */
+export function formatScoresTableExample(
+  scoring: ScoringConfig,
+  exampleDesignId: string,
+): string {
+  const headers = [
+    "Design",
+    ...scoring.dimensions.map((d) => `${getDimensionLabel(d)} (${d.weight}%)`),
+    `Weighted Total (${formatScale(scoring)})`,
+  ];
+  const exampleScores = scoring.dimensions.map((_, i) =>
+    Math.max(scoring.scale.min, scoring.scale.max - 1 - (i % 3)),
+  );
+  const exampleTotal = computeWeightedTotal(
+    Object.fromEntries(
+      scoring.dimensions.map((d, i) => [d.name, exampleScores[i]]),
+    ),
+    scoring,
+  );
+
+  return [
+    `| ${headers.join(" | ")} |`,
+    `|${headers.map((h) => "-".repeat(h.length + 2)).join("|")}|`,
+    `| ${[exampleDesignId, ...exampleScores, exampleTotal.toFixed(1)].join(" | ")} |`,
+  ].join("\n");
+}
+
+/**
+ * Compute the weighted total of dimension scores (weights are percentages)
+ */
+export function computeWeightedTotal(
+  scores: Record<string, number>,
+  scoring: ScoringConfig,
+): number {
+  return (
+    scoring.dimensions.reduce(
+      (sum, d) => sum + (scores[d.name] ?? 0) * d.weight,
+      0,
+    ) / 100
+  );
+}
+
+/**
+ * Compute the weighted total of a score's dimensions, or null if it lacks a
+ * dimension (e.g. a score file from before a rubric change)
+ */
+export function computeWeightedOverall(
+  scores: Record<string, number>,
+  scoring: ScoringConfig,
+): number | null {
+  return scoring.dimensions.every((d) => typeof scores[d.name] === "number")
+    ? computeWeightedTotal(scores, scoring)
+    : null;
+}
+
+/**
+ * Set a score's overall to the weighted total of its dimensions, so every
+ * path ranks by the configured weights rather than the reviewer's own
+ * overall (scores lacking a dimension keep theirs)
+ */
+export function withWeightedOverall<
+  T extends { scores: Record<string, number> },
+>(score: T, scoring: ScoringConfig): T {
+  const overall = computeWeightedOverall(score.scores, scoring);
+  return overall === null
+    ? score
+    : { ...score, scores: { ...score.scores, [OVERALL_DIMENSION]: overall } };
+}
+
+/**
+ * Check whether a reviewer's stated overall is more than a tenth of the
+ * scale away from the weighted total of its dimensions
+ */
+export function isOverallInconsistent(
+  scores: Record<string, number>,
+  scoring: ScoringConfig,
+): boolean {
+  const weighted = computeWeightedOverall(scores, scoring);
+  const stated = scores[OVERALL_DIMENSION];
+  return (
+    weighted !== null &&
+    typeof stated === "number" &&
+    Math.abs(stated - weighted) > (scoring.scale.max - scoring.scale.min) / 10
+  );
+}
+
+/**
+ * Read the score files in a directory, validated against the rubric
+ *
+ * Files that aren't valid JSON or don't match the rubric (e.g. written before
+ * a rubric change) are skipped with a warning.
+ */
+export function readScoreFiles(
+  scoresDir: string,
+  scoring: ScoringConfig,
+): Score[] {
+  if (!fs.existsSync(scoresDir)) {
+    return [];
+  }
+
+  const schema = createScoreSchema(scoring);
+  const scores: Score[] = [];
+  for (const file of fs
+    .readdirSync(scoresDir)
+    .filter((f) => f.endsWith(".json"))) {
+    const filePath = path.join(scoresDir, file);
+    try {
+      const result = schema.safeParse(
+        JSON.parse(fs.readFileSync(filePath, "utf-8")),
+      );
+      if (result.success) {
+        scores.push(result.data);
+      } else {
+        logger.warn(
+          { filePath, issues: formatZodIssues(result.error.issues) },
+          "Skipping score file that does not match the scoring rubric",
+        );
+      }
+    } catch (err) {
+      logger.warn(
+        { filePath, error: err instanceof Error ? err.message : String(err) },
+        "Skipping unreadable score file",
+      );
+    }
+  }
+  return scores;
+}
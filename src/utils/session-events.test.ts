@@ -0,0 +1,113 @@
+import type { Event } from "@opencode-ai/sdk";
+import { describe, expect, it } from "vitest";
+import { createSessionEventBus, waitForSessionEvent } from "./session-events";
+
+const SESSION_ID = "ses_1";
+
+const idle = (sessionID: string) =>
+  ({ type: "session.idle", properties: { sessionID } }) as Event;
+
+const status = (sessionID: string, type: string) =>
+  ({
+    type: "session.status",
+    properties: { sessionID, status: { type } },
+  }) as Event;
+
+const failure = (sessionID: string, message?: string) =>
+  ({
+    type: "session.error",
+    properties: {
+      sessionID,
+      error: { name: "APIError", data: message ? { message } : {} },
+    },
+  }) as Event;
+
+describe("createSessionEventBus", () => {
+  it("is connected once an event has been published", () => {
+    const bus = createSessionEventBus();
+    expect(bus.isConnected()).toBe(false);
+    bus.publish(idle("other"));
+    expect(bus.isConnected()).toBe(true);
+  });
+
+  it("stops delivering events to a listener that unsubscribed", () => {
+    const bus = createSessionEventBus();
+    const received: Event[] = [];
+    const unsubscribe = bus.subscribe((event) => received.push(event));
+    bus.publish(idle(SESSION_ID));
+    unsubscribe();
+    bus.publish(idle(SESSION_ID));
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe("waitForSessionEvent", () => {
+  it("resolves on the session's idle event", async () => {
+    const bus = createSessionEventBus();
+    const { outcome } = waitForSessionEvent(bus, SESSION_ID);
+    bus.publish(idle("other"));
+    bus.publish(idle(SESSION_ID));
+    await expect(outcome).resolves.toEqual({ type: "idle" });
+  });
+
+  it("resolves on an idle status but not a busy one", async () => {
+    const bus = createSessionEventBus();
+    const { outcome } = waitForSessionEvent(bus, SESSION_ID);
+    let settled = false;
+    void outcome.then(() => (settled = true));
+
+    bus.publish(status(SESSION_ID, "busy"));
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    bus.publish(status(SESSION_ID, "idle"));
+    await expect(outcome).resolves.toEqual({ type: "idle" });
+  });
+
+  it("reports the session's error with its message", async () => {
+    const bus = createSessionEventBus();
+    const { outcome } = waitForSessionEvent(bus, SESSION_ID);
+    bus.publish(failure("other", "not this one"));
+    bus.publish(failure(SESSION_ID, "rate limited"));
+    await expect(outcome).resolves.toEqual({
+      type: "error",
+      message: "APIError: rate limited",
+    });
+  });
+
+  it("falls back to the error name without a message", async () => {
+    const bus = createSessionEventBus();
+    const { outcome } = waitForSessionEvent(bus, SESSION_ID);
+    bus.publish(failure(SESSION_ID));
+    await expect(outcome).resolves.toEqual({
+      type: "error",
+      message: "APIError",
+    });
+  });
+
+  it("stops listening when cancelled or resolved", async () => {
+    const bus = createSessionEventBus();
+    let listeners = 0;
+    const source = {
+      subscribe: (listener: (event: Event) => void) => {
+        listeners++;
+        const unsubscribe = bus.subscribe(listener);
+        return () => {
+          listeners--;
+          unsubscribe();
+        };
+      },
+      isConnected: () => bus.isConnected(),
+    };
+
+    const cancelled = waitForSessionEvent(source, SESSION_ID);
+    expect(listeners).toBe(1);
+    cancelled.cancel();
+    expect(listeners).toBe(0);
+
+    const resolved = waitForSessionEvent(source, SESSION_ID);
+    bus.publish(idle(SESSION_ID));
+    await resolved.outcome;
+    expect(listeners).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Event } from "@opencode-ai/sdk";
+
+/**
+ * Source of OpenCode events that session waiters subscribe to
+ *
+ * The plugin feeds the default bus from its `event` hook; anything with the
+ * same shape (e.g. a fake in a test harness) can be passed instead.
+ */
+export type SessionEventSource = {
+  /** Register a listener; returns a function that removes it */
+  subscribe(listener: (event: Event) => void): () => void;
+  /** Whether any event has been delivered yet */
+  isConnected(): boolean;
+};
+
+/**
+ * Event source that events are published to by hand
+ */
+export type SessionEventBus = SessionEventSource & {
+  publish(event: Event): void;
+};
+
+/**
+ * Create an in-memory event bus
+ */
+export function createSessionEventBus(): SessionEventBus {
+  const listeners = new Set<(event: Event) => void>();
+  let connected = false;
+
+  return {
+    publish(event) {
+      connected = true;
+      for (const listener of [...listeners]) {
+        listener(event);
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    isConnected() {
+      return connected;
+    },
+  };
+}
+
+/**
+ * Bus fed by the plugin's `event` hook
+ */
+export const sessionEvents = createSessionEventBus();
+
+/**
+ * Outcome of a session, as reported by the event stream
+ */
+export type SessionEventOutcome =
+  { type: "idle" } | { type: "error"; message: string };
+
+/**
+ * Wait for a session to go idle or fail, according to the event stream
+ *
+ * Resolves on `session.idle` (or a `session.status` of idle) and on
+ * `session.error` for the session. Never resolves if the source stays
+ * silent, so callers race it against a fallback.
+ *
+ * @returns The outcome and a function that stops listening
+ */
+export function waitForSessionEvent(
+  source: SessionEventSource,
+  sessionID: string,
+): { outcome: Promise<SessionEventOutcome>; cancel: () => void } {
+  let unsubscribe: () => void = () => {};
+  const outcome = new Promise<SessionEventOutcome>((resolve) => {
+    unsubscribe = source.subscribe((event) => {
+      const result = matchSessionEvent(event, sessionID);
+      if (result) {
+        unsubscribe();
+        resolve(result);
+      }
+    });
+  });
+
+  return { outcome, cancel: () => unsubscribe() };
+}
+
+function matchSessionEvent(
+  event: Event,
+  sessionID: string,
+): SessionEventOutcome | null {
+  switch (event.type) {
+    case "session.idle":
+      return event.properties.sessionID === sessionID ? { type: "idle" } : null;
+    case "session.status":
+      return event.properties.sessionID === sessionID &&
+        event.properties.status.type === "idle"
+        ? { type: "idle" }
+        : null;
+    case "session.error":
+      return event.properties.sessionID === sessionID
+        ? { type: "error", message: formatSessionError(event) }
+        : null;
+    default:
+      return null;
+  }
+}
+
+function formatSessionError(
+  event: Extract<Event, { type: "session.error" }>,
+): string {
+  const error = event.properties.error;
+  if (!error) {
+    return "Session failed";
+  }
+  const message =
+    "message" in error.data && typeof error.data.message === "string"
+      ? error.data.message
+      : undefined;
+  return message ? `${error.name}: ${message}` : error.name;
+}
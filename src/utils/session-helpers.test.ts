@@ -0,0 +1,267 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { Event } from "@opencode-ai/sdk";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSessionEventBus } from "./session-events";
+import { createSessionScheduler, waitForCompletion } from "./session-helpers";
+
+const SESSION_ID = "ses_1";
+
+/**
+ * Fake plugin context whose session status and messages can be changed
+ * between polls
+ */
+function createFakeContext(state: { status: string; messages: unknown[] }) {
+  const session = {
+    status: vi.fn(async () => ({
+      data: { [SESSION_ID]: { type: state.status } },
+    })),
+    messages: vi.fn(async () => ({ data: state.messages })),
+    abort: vi.fn(async () => ({ data: true })),
+  };
+  return { ctx: { client: { session } } as unknown as PluginInput, session };
+}
+
+const userMessage = { info: { role: "user" } };
+const finishedReply = { info: { role: "assistant", time: { completed: 1 } } };
+
+describe("waitForCompletion", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns at once if the session already finished its turn", async () => {
+    const events = createSessionEventBus();
+    const { ctx, session } = createFakeContext({
+      status: "idle",
+      messages: [userMessage, finishedReply],
+    });
+
+    await waitForCompletion(ctx, SESSION_ID, { events });
+    expect(session.status).toHaveBeenCalledTimes(1);
+  });
+
+  it("completes on the session's idle event", async () => {
+    const events = createSessionEventBus();
+    const { ctx, session } = createFakeContext({
+      status: "busy",
+      messages: [userMessage],
+    });
+
+    const done = waitForCompletion(ctx, SESSION_ID, { events });
+    await vi.waitFor(() => expect(session.status).toHaveBeenCalled());
+    events.publish({
+      type: "session.idle",
+      properties: { sessionID: SESSION_ID },
+    } as Event);
+
+    await expect(done).resolves.toBeUndefined();
+    expect(session.abort).not.toHaveBeenCalled();
+  });
+
+  it("fails on the session's error event", async () => {
+    const events = createSessionEventBus();
+    const { ctx, session } = createFakeContext({
+      status: "busy",
+      messages: [userMessage],
+    });
+
+    const done = waitForCompletion(ctx, SESSION_ID, { events });
+    await vi.waitFor(() => expect(session.status).toHaveBeenCalled());
+    events.publish({
+      type: "session.error",
+      properties: {
+        sessionID: SESSION_ID,
+        error: { name: "APIError", data: { message: "overloaded" } },
+      },
+    } as Event);
+
+    await expect(done).rejects.toThrow("Session failed: APIError: overloaded");
+  });
+
+  it("falls back to polling when no events arrive", async () => {
+    vi.useFakeTimers();
+    const events = createSessionEventBus();
+    const { ctx } = createFakeContext({
+      status: "idle",
+      messages: [userMessage],
+    });
+
+    let finished = false;
+    const done = waitForCompletion(ctx, SESSION_ID, { events }).then(
+      () => (finished = true),
+    );
+
+    // Complete once the message count has been stable for three polls
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(finished).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    await done;
+    expect(finished).toBe(true);
+  });
+
+  it("aborts the session when it times out", async () => {
+    const events = createSessionEventBus();
+    const { ctx, session } = createFakeContext({
+      status: "busy",
+      messages: [userMessage],
+    });
+
+    await expect(
+      waitForCompletion(ctx, SESSION_ID, {
+        events,
+        timeout: { deadline: Date.now() + 20, seconds: 0.02 },
+      }),
+    ).rejects.toThrow("Session timed out after 0.02 seconds");
+    expect(session.abort).toHaveBeenCalledWith({ path: { id: SESSION_ID } });
+  });
+
+  it("aborts the session when the tool call is cancelled", async () => {
+    const events = createSessionEventBus();
+    const { ctx, session } = createFakeContext({
+      status: "busy",
+      messages: [userMessage],
+    });
+    const controller = new AbortController();
+
+    const done = waitForCompletion(ctx, SESSION_ID, {
+      events,
+      abortSignal: controller.signal,
+    });
+    await vi.waitFor(() => expect(session.status).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(done).rejects.toThrow("Cancelled");
+    expect(session.abort).toHaveBeenCalledWith({ path: { id: SESSION_ID } });
+  });
+
+  it("does not start waiting if the call was already cancelled", async () => {
+    const events = createSessionEventBus();
+    const { ctx, session } = createFakeContext({
+      status: "busy",
+      messages: [userMessage],
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      waitForCompletion(ctx, SESSION_ID, {
+        events,
+        abortSignal: controller.signal,
+      }),
+    ).rejects.toThrow("Cancelled");
+    expect(session.status).not.toHaveBeenCalled();
+  });
+});
+
+describe("createSessionScheduler", () => {
+  /**
+   * Schedule a task that runs until it is resolved or rejected by hand,
+   * recording when it starts and its queue positions
+   */
+  function schedule(
+    scheduler: ReturnType<typeof createSessionScheduler>,
+    model: string,
+  ) {
+    const task = {
+      started: false,
+      positions: [] as number[],
+      resolve: () => {},
+      reject: (_error: Error) => {},
+      result: undefined as unknown as Promise<string>,
+    };
+    task.result = scheduler.run(
+      model,
+      () =>
+        new Promise<string>((resolve, reject) => {
+          task.started = true;
+          task.resolve = () => resolve(model);
+          task.reject = reject;
+        }),
+      (position) => task.positions.push(position),
+    );
+    return task;
+  }
+
+  /** Let settled tasks release their slots */
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it("runs everything at once without limits", () => {
+    const scheduler = createSessionScheduler({ providers: {} });
+
+    const tasks = ["openai/a", "openai/b", "anthropic/c"].map((model) =>
+      schedule(scheduler, model),
+    );
+
+    expect(tasks.map((t) => t.started)).toEqual([true, true, true]);
+  });
+
+  it("keeps at most the global limit running", async () => {
+    const scheduler = createSessionScheduler({ global: 2, providers: {} });
+
+    const [a, b, c] = ["openai/a", "anthropic/b", "google/c"].map((model) =>
+      schedule(scheduler, model),
+    );
+    expect([a.started, b.started, c.started]).toEqual([true, true, false]);
+
+    b.resolve();
+    await expect(b.result).resolves.toBe("anthropic/b");
+    await flush();
+    expect(c.started).toBe(true);
+  });
+
+  it("keeps at most the provider limit running, letting other providers pass", async () => {
+    const scheduler = createSessionScheduler({
+      global: 3,
+      providers: { openai: 1 },
+    });
+
+    const [a, b, c] = ["openai/a", "openai/b", "anthropic/c"].map((model) =>
+      schedule(scheduler, model),
+    );
+    expect([a.started, b.started, c.started]).toEqual([true, false, true]);
+
+    a.resolve();
+    await flush();
+    expect(b.started).toBe(true);
+  });
+
+  it("reports 1-based queue positions when they change and 0 on start", async () => {
+    const scheduler = createSessionScheduler({ global: 1, providers: {} });
+
+    const [a, b, c] = ["openai/a", "openai/b", "openai/c"].map((model) =>
+      schedule(scheduler, model),
+    );
+    expect(a.positions).toEqual([0]);
+    // Queuing c does not report b's unchanged position again
+    expect(b.positions).toEqual([1]);
+    expect(c.positions).toEqual([2]);
+
+    a.resolve();
+    await flush();
+    expect(b.positions).toEqual([1, 0]);
+    expect(c.positions).toEqual([2, 1]);
+
+    b.resolve();
+    await flush();
+    expect(c.positions).toEqual([2, 1, 0]);
+  });
+
+  it("releases the slot of a task that rejects", async () => {
+    const scheduler = createSessionScheduler({
+      global: 1,
+      providers: { openai: 1 },
+    });
+
+    const a = schedule(scheduler, "openai/a");
+    const b = schedule(scheduler, "openai/b");
+    expect(b.started).toBe(false);
+
+    a.reject(new Error("Timed out"));
+    await expect(a.result).rejects.toThrow("Timed out");
+    await flush();
+    expect(b.started).toBe(true);
+
+    b.resolve();
+    await expect(b.result).resolves.toBe("openai/b");
+  });
+});
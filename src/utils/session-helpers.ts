@@ -1,25 +1,129 @@
-import type { PluginInput } from "@opencode-ai/plugin";
+import type { PluginInput, ToolContext } from "@opencode-ai/plugin";
+import type { z } from "zod";
+import type { DesignLabConfig } from "../config";
+import { extractJSON } from "./json-extraction";
 import { logger } from "./logger";
+import {
+  sessionEvents,
+  waitForSessionEvent,
+  type SessionEventSource,
+} from "./session-events";
 
 /**
  * Poll interval for checking session completion
  */
 const POLL_INTERVAL_MS = 500;
 
+/**
+ * Poll interval while the event stream is delivering events; polling is then
+ * only a safety net for missed events
+ */
+const FALLBACK_POLL_INTERVAL_MS = 5000;
+
 /**
  * Maximum time to wait for a session to complete
  */
 const MAX_POLL_TIME_MS = 10 * 60 * 1000; // 10 minutes
 
+/**
+ * Time allowed to send a prompt when the caller sets no timeout
+ */
+const DEFAULT_SEND_TIMEOUT_MS = 180 * 1000; // 3 minutes
+
+/**
+ * Phases of a lab that have their own timeout
+ */
+export type SessionPhase = "topic" | "design" | "review";
+
+/**
+ * Time limit for all work in one child session
+ */
+export type SessionTimeout = {
+  /** Epoch milliseconds by which the session must be done */
+  deadline: number;
+  seconds: number;
+};
+
+/**
+ * Start the timeout for a session in a phase, using the model's override if
+ * one is configured (refinement uses the design timeout)
+ */
+export function startSessionTimeout(
+  config: DesignLabConfig,
+  phase: SessionPhase,
+  model: string,
+): SessionTimeout {
+  const seconds =
+    config.timeouts.models[model]?.[phase] ?? config.timeouts[phase];
+  return { deadline: Date.now() + seconds * 1000, seconds };
+}
+
+/**
+ * Abort a child session so it does not keep running in the background
+ */
+export async function abortSession(
+  ctx: PluginInput,
+  sessionID: string,
+): Promise<void> {
+  try {
+    await ctx.client.session.abort({ path: { id: sessionID } });
+    logger.warn({ sessionID }, "Session aborted");
+  } catch (err) {
+    logger.error(
+      { sessionID, error: err instanceof Error ? err.message : String(err) },
+      "Failed to abort session",
+    );
+  }
+}
+
+/**
+ * Throw if the tool call has been cancelled
+ */
+function throwIfCancelled(abortSignal?: AbortSignal): void {
+  if (abortSignal?.aborted) {
+    throw new Error("Cancelled");
+  }
+}
+
+/**
+ * Resolve once the signal aborts; never resolves without a signal
+ *
+ * @returns The promise and a function that stops listening
+ */
+function waitForAbort(abortSignal?: AbortSignal): {
+  aborted: Promise<void>;
+  dispose: () => void;
+} {
+  let dispose = () => {};
+  const aborted = new Promise<void>((resolve) => {
+    if (!abortSignal) {
+      return;
+    }
+    if (abortSignal.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => resolve();
+    abortSignal.addEventListener("abort", onAbort, { once: true });
+    dispose = () => abortSignal.removeEventListener("abort", onAbort);
+  });
+  return { aborted, dispose };
+}
+
 /**
  * Create a new agent session
+ *
+ * If the tool call is cancelled while the session is being created, the new
+ * session is aborted straight away.
  */
 export async function createAgentSession(
   ctx: PluginInput,
   parentSessionID: string | undefined,
   title: string,
   directory: string,
+  abortSignal?: AbortSignal,
 ): Promise<string> {
+  throwIfCancelled(abortSignal);
   logger.info({ parentSessionID, title }, "Creating agent session");
 
   const createResult = await ctx.client.session.create({
@@ -30,6 +134,7 @@ export async function createAgentSession(
     query: {
       directory,
     },
+    signal: abortSignal,
   });
 
   if (createResult.error) {
@@ -37,6 +142,11 @@ export async function createAgentSession(
     throw new Error(`Failed to create session: ${createResult.error}`);
   }
 
+  if (abortSignal?.aborted) {
+    await abortSession(ctx, createResult.data.id);
+    throw new Error("Cancelled");
+  }
+
   logger.info(
     { sessionID: createResult.data.id },
     "Session created successfully",
@@ -46,29 +156,91 @@ export async function createAgentSession(
 
 /**
  * Send a prompt to a session with timeout
+ *
+ * The prompt runs on `model` (a "provider/model" ID) if given, otherwise on
+ * the session's default model. With a retry config, failed sends are retried
+ * with exponential backoff until the timeout. When the timeout passes or the
+ * tool call is cancelled, the session is aborted.
  */
 export async function sendPrompt(
   ctx: PluginInput,
   sessionID: string,
   prompt: string,
   tools?: Record<string, boolean>,
+  options: {
+    retry?: Pick<DesignLabConfig["retries"], "send_attempts" | "backoff_ms">;
+    timeout?: SessionTimeout;
+    abortSignal?: AbortSignal;
+    model?: string;
+  } = {},
 ): Promise<void> {
+  const { abortSignal, model } = options;
+  const timeout = options.timeout ?? {
+    deadline: Date.now() + DEFAULT_SEND_TIMEOUT_MS,
+    seconds: DEFAULT_SEND_TIMEOUT_MS / 1000,
+  };
+  const attempts = options.retry?.send_attempts ?? 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await sendPromptOnce(ctx, sessionID, prompt, tools, timeout, {
+        abortSignal,
+        model,
+      });
+      return;
+    } catch (err) {
+      const remaining = timeout.deadline - Date.now();
+      if (attempt >= attempts || remaining <= 0 || abortSignal?.aborted) {
+        throw err;
+      }
+      const delay = Math.min(
+        (options.retry?.backoff_ms ?? 0) * 2 ** (attempt - 1),
+        remaining,
+      );
+      logger.warn(
+        {
+          sessionID,
+          attempt,
+          delay,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        "Prompt send failed, retrying",
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      throwIfCancelled(abortSignal);
+    }
+  }
+}
+
+async function sendPromptOnce(
+  ctx: PluginInput,
+  sessionID: string,
+  prompt: string,
+  tools: Record<string, boolean> | undefined,
+  timeout: SessionTimeout,
+  { abortSignal, model }: { abortSignal?: AbortSignal; model?: string },
+): Promise<void> {
+  throwIfCancelled(abortSignal);
   logger.info(
-    { sessionID, promptLength: prompt.length, tools },
+    { sessionID, model, promptLength: prompt.length, tools },
     "Sending prompt",
   );
 
-  // Add 180 second timeout (3 mins) to prevent infinite hangs but allow slow models
-  const timeoutPromise = new Promise<never>((_, reject) =>
-    setTimeout(
-      () => reject(new Error("Prompt send timeout after 180 seconds")),
-      180000,
-    ),
-  );
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new Error(`Prompt send timeout after ${timeout.seconds} seconds`),
+        ),
+      Math.max(timeout.deadline - Date.now(), 0),
+    );
+  });
 
   const sendPromise = ctx.client.session.prompt({
     path: { id: sessionID },
     body: {
+      model: model ? parseModelID(model) : undefined,
       tools: {
         ...tools,
         task: false,
@@ -76,9 +248,38 @@ export async function sendPrompt(
       },
       parts: [{ type: "text", text: prompt }],
     },
+    signal: abortSignal,
+  });
+  const cancellation = waitForAbort(abortSignal);
+  const cancelledPromise = cancellation.aborted.then(() => {
+    throw new Error("Cancelled");
   });
 
-  const result = await Promise.race([sendPromise, timeoutPromise]);
+  let result: Awaited<typeof sendPromise>;
+  try {
+    result = await Promise.race([
+      sendPromise,
+      timeoutPromise,
+      cancelledPromise,
+    ]);
+  } catch (err) {
+    if (Date.now() >= timeout.deadline || abortSignal?.aborted) {
+      await abortSession(ctx, sessionID);
+    }
+    if (abortSignal?.aborted) {
+      throw new Error("Cancelled");
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    cancellation.dispose();
+  }
+
+  // The request may also settle with an error once its signal aborts
+  if (abortSignal?.aborted) {
+    await abortSession(ctx, sessionID);
+    throw new Error("Cancelled");
+  }
 
   if (result.error) {
     logger.error({ sessionID, error: result.error }, "Failed to send prompt");
@@ -88,13 +289,133 @@ export async function sendPrompt(
   logger.info({ sessionID }, "Prompt sent successfully");
 }
 
+/**
+ * Wait for a session to finish its turn
+ *
+ * Completes on the session's idle event and fails on its error event. Polling
+ * runs alongside as a fallback: at POLL_INTERVAL_MS if no events have been
+ * received (e.g. the event hook is not wired), otherwise at
+ * FALLBACK_POLL_INTERVAL_MS. If the tool call is cancelled, the session is
+ * aborted.
+ */
+export async function waitForCompletion(
+  ctx: PluginInput,
+  sessionID: string,
+  options: {
+    abortSignal?: AbortSignal;
+    timeout?: SessionTimeout;
+    events?: SessionEventSource;
+  } = {},
+): Promise<void> {
+  const { abortSignal, events = sessionEvents } = options;
+  const timeout = options.timeout ?? {
+    deadline: Date.now() + MAX_POLL_TIME_MS,
+    seconds: MAX_POLL_TIME_MS / 1000,
+  };
+
+  throwIfCancelled(abortSignal);
+
+  // Subscribe before checking, so an idle event in between is not missed
+  const waiter = waitForSessionEvent(events, sessionID);
+  const pollAbort = new AbortController();
+  const stopPolling = () => pollAbort.abort();
+  const cancellation = waitForAbort(abortSignal);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    // The prompt may already have run to completion
+    if (await isSessionComplete(ctx, sessionID)) {
+      logger.info({ sessionID }, "Session already complete");
+      return;
+    }
+
+    const polling = pollForCompletion(
+      ctx,
+      sessionID,
+      pollAbort.signal,
+      events.isConnected() ? FALLBACK_POLL_INTERVAL_MS : POLL_INTERVAL_MS,
+      Number.POSITIVE_INFINITY,
+    ).then(() => ({ type: "idle" as const, source: "poll" }));
+    // Polling rejects once stopped; only a rejection that wins the race matters
+    polling.catch(() => {});
+
+    const timedOut = new Promise<{ type: "timeout"; source: string }>(
+      (resolve) => {
+        timer = setTimeout(
+          () => resolve({ type: "timeout", source: "timer" }),
+          Math.max(timeout.deadline - Date.now(), 0),
+        );
+      },
+    );
+
+    const result = await Promise.race([
+      waiter.outcome.then((outcome) => ({ ...outcome, source: "event" })),
+      polling,
+      timedOut,
+      cancellation.aborted.then(() => ({
+        type: "cancelled" as const,
+        source: "signal",
+      })),
+    ]);
+    if (result.type === "cancelled") {
+      logger.warn({ sessionID }, "Session cancelled");
+      await abortSession(ctx, sessionID);
+      throw new Error("Cancelled");
+    }
+    if (result.type === "timeout") {
+      logger.error(
+        { sessionID, timeoutSeconds: timeout.seconds },
+        "Session timed out",
+      );
+      await abortSession(ctx, sessionID);
+      throw new Error(`Session timed out after ${timeout.seconds} seconds`);
+    }
+    if (result.type === "error") {
+      logger.error({ sessionID, error: result.message }, "Session failed");
+      throw new Error(`Session failed: ${result.message}`);
+    }
+    logger.info({ sessionID, source: result.source }, "Session completed");
+  } finally {
+    clearTimeout(timer);
+    waiter.cancel();
+    stopPolling();
+    cancellation.dispose();
+  }
+}
+
+/**
+ * Check whether a session is idle and its last message is a finished
+ * assistant reply
+ */
+async function isSessionComplete(
+  ctx: PluginInput,
+  sessionID: string,
+): Promise<boolean> {
+  const statusResult = await ctx.client.session.status();
+  const status = (statusResult.data ?? {})[sessionID];
+  if (status && status.type !== "idle") {
+    return false;
+  }
+
+  const messagesResult = await ctx.client.session.messages({
+    path: { id: sessionID },
+  });
+  const last = messagesResult.data?.at(-1)?.info;
+  return last?.role === "assistant" && last.time.completed !== undefined;
+}
+
 /**
  * Poll for session completion
+ *
+ * The session counts as complete once it is idle and its message count has
+ * been stable for three polls.
  */
 export async function pollForCompletion(
   ctx: PluginInput,
   sessionID: string,
   abortSignal?: AbortSignal,
+  pollIntervalMs = POLL_INTERVAL_MS,
+  maxWaitMs = MAX_POLL_TIME_MS,
 ): Promise<void> {
   const pollStart = Date.now();
   let lastMsgCount = 0;
@@ -104,17 +425,17 @@ export async function pollForCompletion(
 
   logger.info({ sessionID }, "Starting polling for completion");
 
-  while (Date.now() - pollStart < MAX_POLL_TIME_MS) {
+  while (Date.now() - pollStart < maxWaitMs) {
     pollCount++;
 
-    // Check if aborted
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+
+    // Check if aborted (or stopped because an event completed the wait)
     if (abortSignal?.aborted) {
-      logger.warn({ sessionID }, "Polling aborted by signal");
+      logger.debug({ sessionID }, "Polling stopped by signal");
       throw new Error("Task aborted");
     }
 
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
-
     // Check session status
     const statusResult = await ctx.client.session.status();
     const allStatuses = (statusResult.data ?? {}) as Record<
@@ -171,18 +492,21 @@ export async function pollForCompletion(
   }
 
   logger.error(
-    { sessionID, totalPolls: pollCount, elapsed: MAX_POLL_TIME_MS },
+    { sessionID, totalPolls: pollCount, elapsed: maxWaitMs },
     "Session timed out",
   );
-  throw new Error("Session timed out after 10 minutes");
+  throw new Error(`Session timed out after ${maxWaitMs / 1000} seconds`);
 }
 
 /**
  * Extract text content from session messages
+ *
+ * @param latestTurn - Only read the replies to the most recent prompt
  */
 export async function extractSessionOutput(
   ctx: PluginInput,
   sessionID: string,
+  latestTurn = false,
 ): Promise<string> {
   const messagesResult = await ctx.client.session.messages({
     path: { id: sessionID },
@@ -192,7 +516,12 @@ export async function extractSessionOutput(
     throw new Error(`Failed to get messages: ${messagesResult.error}`);
   }
 
-  const messages = messagesResult.data;
+  const lastUserIndex = messagesResult.data.findLastIndex(
+    (m) => m.info?.role === "user",
+  );
+  const messages = latestTurn
+    ? messagesResult.data.slice(lastUserIndex + 1)
+    : messagesResult.data;
 
   // Filter for assistant messages
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -220,35 +549,250 @@ export async function extractSessionOutput(
 }
 
 /**
- * Extract JSON from text that may contain markdown code blocks
+ * Read the JSON a session just produced and validate it, asking the model to
+ * correct it in the same session when it does not parse or match the schema
+ *
+ * The prompt must already have been sent and completed. The last JSON
+ * candidate in the reply that matches the schema is used; otherwise each
+ * repair prompt lists every candidate with its parse error or schema issues,
+ * e.g. "risks[2].impact: Invalid option: expected one of "low"|"medium"|"high"".
  *
- * @param text - The text to extract JSON from
- * @returns The parsed JSON object
- * @throws Error with context if parsing fails
+ * @throws If the output is still invalid after `repair_attempts` re-prompts
  */
-export function extractJSON<T>(text: string): T {
-  try {
-    // Try to extract JSON from markdown code blocks first
-    const jsonBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonBlockMatch) {
-      return JSON.parse(jsonBlockMatch[1].trim()) as T;
+export async function requestValidJSON<T>(
+  ctx: PluginInput,
+  sessionID: string,
+  schema: z.ZodType<T>,
+  options: {
+    retry: DesignLabConfig["retries"];
+    tools?: Record<string, boolean>;
+    timeout?: SessionTimeout;
+    abortSignal?: AbortSignal;
+    model?: string;
+  },
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const output = await extractSessionOutput(ctx, sessionID, true);
+
+    let problem: string;
+    try {
+      return extractJSON(output, schema);
+    } catch (err) {
+      problem = err instanceof Error ? err.message : String(err);
     }
 
-    // Try to find raw JSON (object or array)
-    const jsonMatch = text.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[1]) as T;
+    if (attempt >= options.retry.repair_attempts) {
+      throw new Error(problem);
     }
 
-    // Try parsing the whole thing as JSON
-    return JSON.parse(text.trim()) as T;
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : String(err);
-    const preview = text.substring(0, 200);
+    logger.warn(
+      { sessionID, attempt: attempt + 1, problem },
+      "Invalid JSON output, asking the model to correct it",
+    );
+    await sendPrompt(
+      ctx,
+      sessionID,
+      `Your previous response could not be used. ${problem}
+
+Respond again with the complete, corrected JSON. Output ONLY the JSON, with no other text.`,
+      options.tools,
+      {
+        retry: options.retry,
+        timeout: options.timeout,
+        abortSignal: options.abortSignal,
+        model: options.model,
+      },
+    );
+    await waitForCompletion(ctx, sessionID, {
+      timeout: options.timeout,
+      abortSignal: options.abortSignal,
+    });
+  }
+}
+
+/**
+ * Runs model sessions within the configured concurrency limits
+ */
+export type SessionScheduler = {
+  /**
+   * Run a task for a model once a slot is free
+   *
+   * @param onQueuePosition - Called with the task's 1-based position while it
+   *   waits (whenever it changes) and with 0 when it starts
+   */
+  run<T>(
+    model: string,
+    task: () => Promise<T>,
+    onQueuePosition?: (position: number) => void,
+  ): Promise<T>;
+};
+
+/**
+ * Create a FIFO scheduler that keeps at most `global` sessions running, and
+ * at most `providers[provider]` per provider. A queued task may start ahead
+ * of earlier ones whose provider is still at its limit.
+ */
+export function createSessionScheduler(
+  limits: DesignLabConfig["max_concurrency"],
+): SessionScheduler {
+  type Entry = {
+    provider: string;
+    start: () => void;
+    onQueuePosition?: (position: number) => void;
+    position?: number;
+  };
+
+  const queue: Entry[] = [];
+  const runningByProvider = new Map<string, number>();
+  let running = 0;
+
+  const canStart = (provider: string) => {
+    const providerLimit = limits.providers[provider];
+    return (
+      (limits.global === undefined || running < limits.global) &&
+      (providerLimit === undefined ||
+        (runningByProvider.get(provider) ?? 0) < providerLimit)
+    );
+  };
+
+  const drain = () => {
+    for (let i = 0; i < queue.length;) {
+      if (canStart(queue[i].provider)) {
+        queue.splice(i, 1)[0].start();
+      } else {
+        i++;
+      }
+    }
+    queue.forEach((entry, i) => {
+      if (entry.position !== i + 1) {
+        entry.position = i + 1;
+        entry.onQueuePosition?.(i + 1);
+      }
+    });
+  };
+
+  return {
+    run(model, task, onQueuePosition) {
+      const provider = getModelProvider(model);
+      return new Promise((resolve, reject) => {
+        queue.push({
+          provider,
+          onQueuePosition,
+          start: () => {
+            running++;
+            runningByProvider.set(
+              provider,
+              (runningByProvider.get(provider) ?? 0) + 1,
+            );
+            onQueuePosition?.(0);
+            task()
+              .then(resolve, reject)
+              .finally(() => {
+                running--;
+                runningByProvider.set(
+                  provider,
+                  (runningByProvider.get(provider) ?? 1) - 1,
+                );
+                drain();
+              });
+          },
+        });
+        drain();
+      });
+    },
+  };
+}
+
+/**
+ * Create a queue position callback per model that reports the state of all
+ * models as tool progress, e.g. "Generating designs: 2 running, 3 queued"
+ */
+export function createQueueProgress(
+  toolContext: ToolContext,
+  label: string,
+  models: string[],
+): (model: string) => (position: number) => void {
+  const states = new Map<string, string>(
+    models.map((model) => [model, "pending"]),
+  );
+
+  const report = () => {
+    const values = [...states.values()];
+    const runningCount = values.filter((v) => v === "running").length;
+    const queuedCount = values.filter((v) => v.startsWith("queued")).length;
+    toolContext.metadata({
+      title: `${label}: ${runningCount} running, ${queuedCount} queued`,
+      metadata: { models: Object.fromEntries(states) },
+    });
+  };
+
+  return (model) => (position) => {
+    states.set(model, position === 0 ? "running" : `queued (#${position})`);
+    report();
+  };
+}
+
+/**
+ * Split a model ID into the provider and model the prompt API expects
+ * e.g., "openai/gpt-5" -> { providerID: "openai", modelID: "gpt-5" }
+ */
+export function parseModelID(modelName: string): {
+  providerID: string;
+  modelID: string;
+} {
+  const slash = modelName.indexOf("/");
+  if (slash <= 0 || slash === modelName.length - 1) {
     throw new Error(
-      `Failed to parse JSON: ${errorMessage}\nText preview: ${preview}${text.length > 200 ? "..." : ""}`,
+      `Invalid model ID "${modelName}"; expected "provider/model"`,
     );
   }
+  return {
+    providerID: modelName.slice(0, slash),
+    modelID: modelName.slice(slash + 1),
+  };
+}
+
+/**
+ * Find the model that wrote a session's latest reply, from the message
+ * metadata
+ *
+ * Logs a warning if it is not the requested model (e.g. the provider fell
+ * back to another one).
+ *
+ * @returns The answering "provider/model" ID, or the requested model if the
+ *   session has no assistant reply
+ */
+export async function getAnsweringModel(
+  ctx: PluginInput,
+  sessionID: string,
+  requestedModel: string,
+): Promise<string> {
+  const messagesResult = await ctx.client.session.messages({
+    path: { id: sessionID },
+  });
+  const reply = messagesResult.data
+    ?.map((m) => m.info)
+    .findLast((info) => info.role === "assistant");
+  if (!reply || reply.role !== "assistant") {
+    return requestedModel;
+  }
+
+  const answeringModel = `${reply.providerID}/${reply.modelID}`;
+  if (answeringModel !== requestedModel) {
+    logger.warn(
+      { sessionID, requestedModel, answeringModel },
+      "Session answered with a different model than requested",
+    );
+  }
+  return answeringModel;
+}
+
+/**
+ * Extract the provider from a model ID
+ * e.g., "openai/gpt-5" -> "openai"
+ */
+export function getModelProvider(modelName: string): string {
+  return modelName.includes("/") ? modelName.split("/")[0] : modelName;
 }
 
 /**
@@ -0,0 +1,140 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { Message, Part } from "@opencode-ai/sdk";
+import * as fs from "fs";
+import * as path from "path";
+import type { DesignLabConfig } from "../config";
+import { getRoundDir } from "./lab-helpers";
+import { logger } from "./logger";
+import { getModelShortName, sanitizeForFilename } from "./session-helpers";
+import type { TrackedToolSession, UsagePhase } from "./usage-helpers";
+
+/**
+ * Directory in the lab that holds session transcripts
+ */
+export const TRANSCRIPTS_DIR = "transcripts";
+
+/**
+ * Text that replaces redacted prompts
+ */
+const REDACTED = "[redacted]";
+
+/**
+ * Full record of one child session, as saved to
+ * transcripts/<phase>/<model>-<session ID>.json
+ */
+export type SessionTranscript = {
+  session_id: string;
+  phase: UsagePhase;
+  round: number;
+  model: string;
+  saved_at: string;
+  /** Whether the text of the prompts sent to the model was removed */
+  prompts_redacted: boolean;
+  /** Messages as returned by OpenCode: prompts, replies, reasoning, tool calls and timings */
+  messages: Array<{ info: Message; parts: Part[] }>;
+};
+
+/**
+ * Get the transcript path for a session, e.g.
+ * transcripts/review/round-2/gpt-5-ses_abc123.json
+ *
+ * The session ID keeps every attempt: resuming a phase starts new sessions
+ * for the failed models, and the failed attempts' transcripts are the ones
+ * worth debugging.
+ */
+export function getTranscriptPath(
+  labDir: string,
+  session: Pick<TrackedToolSession, "sessionID" | "phase" | "model" | "round">,
+): string {
+  return path.join(
+    getRoundDir(
+      labDir,
+      path.join(TRANSCRIPTS_DIR, session.phase),
+      session.round,
+    ),
+    `${sanitizeForFilename(getModelShortName(session.model))}-${session.sessionID.replace(/[^\w-]/g, "")}.json`,
+  );
+}
+
+/**
+ * Save the full message list of each session to the lab directory
+ *
+ * Sessions whose transcript cannot be read or written are skipped with a
+ * warning, so a missing transcript never fails the tool call.
+ */
+export async function saveSessionTranscripts(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+  labDir: string,
+  sessions: TrackedToolSession[],
+): Promise<void> {
+  if (!config.transcripts.enabled) {
+    return;
+  }
+
+  for (const session of sessions) {
+    try {
+      await saveSessionTranscript(ctx, config, labDir, session);
+    } catch (err) {
+      logger.warn(
+        {
+          sessionID: session.sessionID,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        "Could not save session transcript",
+      );
+    }
+  }
+}
+
+async function saveSessionTranscript(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+  labDir: string,
+  session: TrackedToolSession,
+): Promise<void> {
+  const messagesResult = await ctx.client.session.messages({
+    path: { id: session.sessionID },
+  });
+  if (messagesResult.error) {
+    throw new Error(JSON.stringify(messagesResult.error));
+  }
+
+  const redact = config.transcripts.redact_prompts;
+  const transcript: SessionTranscript = {
+    session_id: session.sessionID,
+    phase: session.phase,
+    round: session.round,
+    model: session.model,
+    saved_at: new Date().toISOString(),
+    prompts_redacted: redact,
+    messages: redact ? redactPrompts(messagesResult.data) : messagesResult.data,
+  };
+
+  const transcriptPath = getTranscriptPath(labDir, session);
+  fs.mkdirSync(path.dirname(transcriptPath), { recursive: true });
+  fs.writeFileSync(transcriptPath, JSON.stringify(transcript, null, 2));
+  logger.info(
+    { sessionID: session.sessionID, transcriptPath },
+    "Session transcript saved",
+  );
+}
+
+/**
+ * Replace the text of every prompt (user message) with a placeholder,
+ * keeping the model's replies intact
+ */
+export function redactPrompts(
+  messages: Array<{ info: Message; parts: Part[] }>,
+): Array<{ info: Message; parts: Part[] }> {
+  return messages.map((message) =>
+    message.info.role === "user"
+      ? {
+          ...message,
+          parts: message.parts.map((part) =>
+            part.type === "text" ? { ...part, text: REDACTED } : part,
+          ),
+        }
+      : message,
+  );
+}
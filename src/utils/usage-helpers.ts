@@ -0,0 +1,366 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { AssistantMessage } from "@opencode-ai/sdk";
+import * as fs from "fs";
+import * as path from "path";
+import type { DesignLabConfig } from "../config";
+import { logger } from "./logger";
+import { sessionEvents, type SessionEventSource } from "./session-events";
+
+/**
+ * File in the lab directory that records model usage
+ */
+export const USAGE_FILE = "usage.json";
+
+/**
+ * Lab phases that usage is reported by
+ */
+export type UsagePhase = "topic" | "design" | "refine" | "review";
+
+/**
+ * Tokens and cost, summed over model replies
+ */
+export type TokenUsage = {
+  input: number;
+  output: number;
+  reasoning: number;
+  cache_read: number;
+  cache_write: number;
+  cost: number;
+};
+
+/**
+ * Usage of one child session
+ */
+export type SessionUsageRecord = TokenUsage & {
+  session_id: string;
+  phase: UsagePhase;
+  round: number;
+  model: string;
+};
+
+/**
+ * Contents of usage.json
+ */
+export type LabUsage = {
+  sessions: SessionUsageRecord[];
+  /** Usage per phase, then per model */
+  by_phase: Partial<Record<UsagePhase, Record<string, TokenUsage>>>;
+  total: TokenUsage;
+};
+
+/**
+ * A child session started by a tool call
+ */
+export type TrackedToolSession = {
+  sessionID: string;
+  phase: UsagePhase;
+  model: string;
+  round: number;
+};
+
+/**
+ * Tracks the model usage of one tool call's sessions and enforces the
+ * configured budget
+ */
+export type UsageTracker = {
+  /**
+   * Aborts when the tool call is cancelled or the budget is reached; pass it
+   * to the session helpers so remaining sessions are aborted
+   */
+  signal: AbortSignal;
+  /** Count the lab's recorded usage towards the budget */
+  setLab(labDir: string): void;
+  /** Start counting a session's usage */
+  track(
+    sessionID: string,
+    phase: UsagePhase,
+    model: string,
+    round?: number,
+  ): void;
+  /** Sessions tracked so far, in the order they started */
+  sessions(): TrackedToolSession[];
+  /** Why the budget stopped the tool call, if it did */
+  budgetExceeded(): string | null;
+  /**
+   * Read the final usage of the tracked sessions, add it to the lab's
+   * usage.json and stop listening for events
+   */
+  finish(labDir: string): Promise<LabUsage>;
+  /** Stop listening without recording usage */
+  dispose(): void;
+};
+
+/**
+ * Create a usage tracker for a tool call
+ *
+ * Usage is counted live from `message.updated` events, so the budget can
+ * abort sessions mid-run; the recorded totals are read from the sessions'
+ * messages at the end.
+ */
+export function createUsageTracker(
+  ctx: PluginInput,
+  config: DesignLabConfig,
+  toolAbort: AbortSignal,
+  events: SessionEventSource = sessionEvents,
+): UsageTracker {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  toolAbort.addEventListener("abort", cancel);
+  if (toolAbort.aborted) {
+    controller.abort();
+  }
+
+  const sessions = new Map<string, TrackedToolSession>();
+  /** Latest usage of each reply, by session then message */
+  const replies = new Map<string, Map<string, TokenUsage>>();
+  let baseline = emptyUsage();
+  let exceeded: string | null = null;
+
+  const checkBudget = () => {
+    if (exceeded) {
+      return;
+    }
+    const live = [...replies.values()].flatMap((byMessage) => [
+      ...byMessage.values(),
+    ]);
+    exceeded = checkUsageBudget(config, sumUsage([baseline, ...live]));
+    if (exceeded) {
+      logger.warn({ reason: exceeded }, "Budget reached, aborting sessions");
+      controller.abort();
+    }
+  };
+
+  const unsubscribeEvents = events.subscribe((event) => {
+    if (event.type !== "message.updated") {
+      return;
+    }
+    const info = event.properties.info;
+    if (info.role !== "assistant" || !sessions.has(info.sessionID)) {
+      return;
+    }
+    replies.get(info.sessionID)?.set(info.id, getMessageUsage(info));
+    checkBudget();
+  });
+  const dispose = () => {
+    unsubscribeEvents();
+    toolAbort.removeEventListener("abort", cancel);
+  };
+
+  return {
+    signal: controller.signal,
+    setLab(labDir) {
+      baseline = readLabUsage(labDir)?.total ?? emptyUsage();
+      checkBudget();
+    },
+    track(sessionID, phase, model, round = 1) {
+      sessions.set(sessionID, { sessionID, phase, model, round });
+      replies.set(sessionID, new Map());
+    },
+    sessions: () => [...sessions.values()],
+    budgetExceeded: () => exceeded,
+    async finish(labDir) {
+      dispose();
+
+      const records: SessionUsageRecord[] = [];
+      for (const [sessionID, session] of sessions) {
+        records.push({
+          session_id: sessionID,
+          phase: session.phase,
+          round: session.round,
+          model: session.model,
+          ...(await readSessionUsage(ctx, sessionID)),
+        });
+      }
+      return recordLabUsage(labDir, records);
+    },
+    dispose,
+  };
+}
+
+/**
+ * Sum the usage of all assistant replies in a session
+ */
+export async function readSessionUsage(
+  ctx: PluginInput,
+  sessionID: string,
+): Promise<TokenUsage> {
+  const messagesResult = await ctx.client.session.messages({
+    path: { id: sessionID },
+  });
+  if (messagesResult.error) {
+    logger.warn(
+      { sessionID, error: messagesResult.error },
+      "Could not read session usage",
+    );
+    return emptyUsage();
+  }
+  return sumUsage(
+    messagesResult.data
+      .map((m) => m.info)
+      .filter((info): info is AssistantMessage => info.role === "assistant")
+      .map(getMessageUsage),
+  );
+}
+
+/**
+ * Read the lab's usage.json, if any usage has been recorded
+ */
+export function readLabUsage(labDir: string): LabUsage | null {
+  const usagePath = path.join(labDir, USAGE_FILE);
+  return fs.existsSync(usagePath)
+    ? (JSON.parse(fs.readFileSync(usagePath, "utf-8")) as LabUsage)
+    : null;
+}
+
+/**
+ * Add session records to the lab's usage.json (replacing earlier records
+ * for the same sessions) and recompute the totals
+ */
+export function recordLabUsage(
+  labDir: string,
+  records: SessionUsageRecord[],
+): LabUsage {
+  const recordedIds = new Set(records.map((r) => r.session_id));
+  const sessions = [
+    ...(readLabUsage(labDir)?.sessions ?? []).filter(
+      (r) => !recordedIds.has(r.session_id),
+    ),
+    ...records,
+  ];
+
+  const byPhase: LabUsage["by_phase"] = {};
+  for (const record of sessions) {
+    const phaseUsage = (byPhase[record.phase] ??= {});
+    phaseUsage[record.model] = sumUsage([
+      phaseUsage[record.model] ?? emptyUsage(),
+      record,
+    ]);
+  }
+
+  const usage: LabUsage = {
+    sessions,
+    by_phase: byPhase,
+    total: sumUsage(sessions),
+  };
+  fs.writeFileSync(
+    path.join(labDir, USAGE_FILE),
+    JSON.stringify(usage, null, 2),
+  );
+  return usage;
+}
+
+/**
+ * Check usage against the configured budget
+ *
+ * @returns Why the budget is reached, or null if there is room left (or no
+ *   budget)
+ */
+export function checkUsageBudget(
+  config: DesignLabConfig,
+  usage: TokenUsage,
+): string | null {
+  const { budget } = config;
+  if (!budget) {
+    return null;
+  }
+  const tokens = countTokens(usage);
+  if (budget.max_tokens !== undefined && tokens >= budget.max_tokens) {
+    return `${tokens} of ${budget.max_tokens} tokens used`;
+  }
+  if (budget.max_cost !== undefined && usage.cost >= budget.max_cost) {
+    return `cost ${formatCost(usage.cost)} of ${formatCost(budget.max_cost)} used`;
+  }
+  return null;
+}
+
+/**
+ * Check the lab's recorded usage against the configured budget
+ */
+export function checkLabBudget(
+  config: DesignLabConfig,
+  labDir: string,
+): string | null {
+  const usage = readLabUsage(labDir);
+  return usage ? checkUsageBudget(config, usage.total) : null;
+}
+
+/**
+ * Format lab usage as a markdown table by phase and model, with a total row
+ */
+export function formatUsageTable(usage: LabUsage): string {
+  const rows = Object.entries(usage.by_phase).flatMap(([phase, byModel]) =>
+    Object.entries(byModel ?? {}).map(
+      ([model, u]) =>
+        `| ${phase} | ${model} | ${u.input} | ${u.output} | ${u.reasoning} | ${formatCost(u.cost)} |`,
+    ),
+  );
+  const t = usage.total;
+  return `| Phase | Model | Input Tokens | Output Tokens | Reasoning Tokens | Cost |
+|-------|-------|--------------|---------------|------------------|------|
+${rows.join("\n")}
+| **Total** | | ${t.input} | ${t.output} | ${t.reasoning} | ${formatCost(t.cost)} |`;
+}
+
+/**
+ * Format the "Cost" section of results.md, or nothing if the lab has no
+ * recorded usage (e.g. it was run in agent mode)
+ */
+export function formatUsageSection(usage: LabUsage | null): string {
+  if (!usage || usage.sessions.length === 0) {
+    return "";
+  }
+  return `## Cost
+
+Model usage of the whole lab so far (all phases and rounds), from ${USAGE_FILE}.
+
+${formatUsageTable(usage)}
+
+`;
+}
+
+/**
+ * Tokens counted towards the budget
+ */
+export function countTokens(usage: TokenUsage): number {
+  return usage.input + usage.output + usage.reasoning;
+}
+
+function getMessageUsage(info: AssistantMessage): TokenUsage {
+  return {
+    input: info.tokens.input,
+    output: info.tokens.output,
+    reasoning: info.tokens.reasoning,
+    cache_read: info.tokens.cache.read,
+    cache_write: info.tokens.cache.write,
+    cost: info.cost,
+  };
+}
+
+function sumUsage(usages: TokenUsage[]): TokenUsage {
+  return usages.reduce(
+    (sum, u) => ({
+      input: sum.input + u.input,
+      output: sum.output + u.output,
+      reasoning: sum.reasoning + u.reasoning,
+      cache_read: sum.cache_read + u.cache_read,
+      cache_write: sum.cache_write + u.cache_write,
+      cost: sum.cost + u.cost,
+    }),
+    emptyUsage(),
+  );
+}
+
+function emptyUsage(): TokenUsage {
+  return {
+    input: 0,
+    output: 0,
+    reasoning: 0,
+    cache_read: 0,
+    cache_write: 0,
+    cost: 0,
+  };
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
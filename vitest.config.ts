@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    server: {
+      deps: {
+        // The plugin package's ESM build imports files without extensions,
+        // which Node can't resolve; let Vite bundle it instead
+        inline: ["@opencode-ai/plugin"],
+      },
+    },
+  },
+});